@@ -26,6 +26,7 @@ import { PromiseProvider } from '../promise_provider.ts';
 import type { Server } from '../sdam/server.ts';
 import type { Topology } from '../sdam/topology.ts';
 import type { ClientSession } from '../sessions.ts';
+import type { Sort } from '../sort.ts';
 import {
   applyRetryableWrites,
   Callback,
@@ -87,6 +88,8 @@ export interface ReplaceOneModel<TSchema extends Document = Document> {
   hint?: Hint;
   /** When true, creates a new document if no document matches the query. */
   upsert?: boolean;
+  /** Determines which document is replaced if the filter matches several (requires MongoDB 8.0). */
+  sort?: Sort;
 }
 
 /** @public */
@@ -103,6 +106,8 @@ export interface UpdateOneModel<TSchema extends Document = Document> {
   hint?: Hint;
   /** When true, creates a new document if no document matches the query. */
   upsert?: boolean;
+  /** Determines which document is updated if the filter matches several (requires MongoDB 8.0). */
+  sort?: Sort;
 }
 
 /** @public */
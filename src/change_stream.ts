@@ -50,7 +50,9 @@ const CHANGE_STREAM_OPTIONS = [
   'resumeAfter',
   'startAfter',
   'startAtOperationTime',
-  'fullDocument'
+  'fullDocument',
+  'fullDocumentBeforeChange',
+  'showExpandedEvents'
 ] as const;
 
 const CURSOR_OPTIONS = [
@@ -59,6 +61,7 @@ const CURSOR_OPTIONS = [
   'collation',
   'readPreference',
   'comment',
+  'signal',
   ...CHANGE_STREAM_OPTIONS
 ] as const;
 
@@ -132,6 +135,19 @@ export type ChangeStreamAggregateRawResult<TChange> = {
 export interface ChangeStreamOptions extends AggregateOptions {
   /** Allowed values: 'updateLookup'. When set to 'updateLookup', the change stream will include both a delta describing the changes to the document, as well as a copy of the entire document that was changed from some time after the change occurred. */
   fullDocument?: string;
+  /**
+   * Allowed values: 'off', 'whenAvailable' and 'required' (MongoDB 6.0 or higher). Includes the
+   * pre-image of modified documents as `fullDocumentBeforeChange`, which requires
+   * `changeStreamPreAndPostImages` to be enabled on the collection. With 'whenAvailable' the
+   * field is `null` if the pre-image is missing, with 'required' the change stream fails.
+   * 'whenAvailable' and 'required' are also accepted by `fullDocument` to return post-images.
+   */
+  fullDocumentBeforeChange?: string;
+  /**
+   * Reports DDL events such as `create`, `createIndexes`, `dropIndexes` and `modify`, and adds
+   * fields like `collectionUUID` to other events (MongoDB 6.0 or higher).
+   */
+  showExpandedEvents?: boolean;
   /** The maximum amount of time for the server to wait on new documents to satisfy a change stream query. */
   maxAwaitTimeMS?: number;
   /** Allows you to start a changeStream after a specified event. See {@link https://docs.mongodb.com/manual/changeStreams/#resumeafter-for-change-streams|ChangeStream documentation}. */
@@ -163,7 +179,15 @@ export interface ChangeStreamDocument<TSchema extends Document = Document> {
     | 'invalidate'
     | 'drop'
     | 'dropDatabase'
-    | 'rename';
+    | 'rename'
+    // reported with `showExpandedEvents`
+    | 'create'
+    | 'createIndexes'
+    | 'dropIndexes'
+    | 'modify'
+    | 'shardCollection'
+    | 'refineCollectionShardKey'
+    | 'reshardCollection';
 
   /**
    * Contains two fields: “db” and “coll” containing the database and
@@ -204,6 +228,18 @@ export interface ChangeStreamDocument<TSchema extends Document = Document> {
    * document was deleted since the updated happened, it will be null.
    */
   fullDocument?: TSchema;
+
+  /**
+   * Only present for ops of type ‘update’, ‘replace’ and ‘delete’ if the user has specified
+   * ‘whenAvailable’ or ‘required’ in the ‘fullDocumentBeforeChange’ arguments to the
+   * ‘$changeStream’ stage.
+   *
+   * Contains the version of the document before the change, or null if it is not available.
+   */
+  fullDocumentBeforeChange?: TSchema | null;
+
+  /** The server time of the change, as reported by MongoDB 6.0 or higher. */
+  wallTime?: Date;
 }
 
 /** @public */
@@ -1,13 +1,21 @@
 import type { Document } from '../../bson.ts';
-import { MongoRuntimeError } from '../../error.ts';
-import type { Callback, ClientMetadataOptions } from '../../utils.ts';
+import { MongoInvalidArgumentError, MongoRuntimeError } from '../../error.ts';
+import { Callback, ClientMetadataOptions, ns } from '../../utils.ts';
 import type { HandshakeDocument } from '../connect.ts';
 import type { Connection, ConnectionOptions } from '../connection.ts';
 import type { MongoCredentials } from './mongo_credentials.ts';
+import { AuthMechanism } from './providers.ts';
 
+/** SASL mechanism names, see RFC 4422 section 3.1 */
+const MECHANISM_NAME_REGEX = /^[A-Z0-9_-]{1,20}$/;
+
+/** @public */
 export type AuthContextOptions = ConnectionOptions & ClientMetadataOptions;
 
-/** Context used during authentication */
+/**
+ * Context used during authentication
+ * @public
+ */
 export class AuthContext {
   /** The connection to authenticate */
   connection: Connection;
@@ -20,6 +28,10 @@ export class AuthContext {
   response?: Document;
   /** A random nonce generated for use in an authentication conversation */
   nonce?: Buffer;
+  /** The access token presented by a `MONGODB-OIDC` conversation on this connection */
+  accessToken?: string;
+  /** Whether the connection is currently being reauthenticated */
+  reauthenticating = false;
 
   constructor(
     connection: Connection,
@@ -30,8 +42,21 @@ export class AuthContext {
     this.credentials = credentials;
     this.options = options;
   }
+
+  /**
+   * Runs `command` against the database `db` on the connection being authenticated, e.g. the
+   * `saslStart` and `saslContinue` steps of a conversation.
+   */
+  command(db: string, command: Document, callback: Callback<Document>): void {
+    this.connection.command(ns(`${db}.$cmd`), command, undefined, callback);
+  }
 }
 
+/**
+ * The base class of authentication mechanisms. Subclasses override `auth` to run the
+ * conversation and may override `prepare` to authenticate speculatively in the handshake.
+ * @public
+ */
 export class AuthProvider {
   /**
    * Prepare the handshake document before the initial handshake.
@@ -57,4 +82,63 @@ export class AuthProvider {
     // TODO(NODE-3483): Replace this with MongoMethodOverrideError
     callback(new MongoRuntimeError('`auth` method must be overridden by subclass'));
   }
+
+  /**
+   * Run the authentication conversation again on an established connection, after the
+   * server reported that its authentication has expired.
+   *
+   * @param context - The context the connection was originally authenticated with
+   * @param callback - The callback to return the result from the reauthentication
+   */
+  reauth(context: AuthContext, callback: Callback): void {
+    if (context.reauthenticating) {
+      return callback(new MongoRuntimeError('Reauthentication already in progress'));
+    }
+
+    // the handshake response no longer applies, a full conversation is needed
+    context.response = undefined;
+    context.reauthenticating = true;
+    this.auth(context, err => {
+      context.reauthenticating = false;
+      callback(err);
+    });
+  }
+}
+
+/** Providers registered with `registerAuthProvider`, keyed by upper case mechanism name */
+const CUSTOM_AUTH_PROVIDERS = new Map<string, AuthProvider>();
+
+/**
+ * Registers `provider` for the authentication mechanism `mechanism`, so that clients configured
+ * with `authMechanism=<mechanism>` authenticate through it. Mechanism names are case-insensitive
+ * and the built-in mechanisms cannot be replaced.
+ * @public
+ */
+export function registerAuthProvider(mechanism: string, provider: AuthProvider): void {
+  const name = String(mechanism).toUpperCase();
+  if (!MECHANISM_NAME_REGEX.test(name)) {
+    throw new MongoInvalidArgumentError(
+      `Authentication mechanism name '${mechanism}' must be 1 to 20 letters, digits, '-' or '_'`
+    );
+  }
+
+  if (Object.values(AuthMechanism).some(builtIn => builtIn.toUpperCase() === name)) {
+    throw new MongoInvalidArgumentError(
+      `Cannot replace the built-in authentication mechanism '${mechanism}'`
+    );
+  }
+
+  if (!(provider instanceof AuthProvider)) {
+    throw new MongoInvalidArgumentError('Authentication providers must extend AuthProvider');
+  }
+
+  CUSTOM_AUTH_PROVIDERS.set(name, provider);
+}
+
+/**
+ * Looks up a provider registered with `registerAuthProvider`
+ * @internal
+ */
+export function getCustomAuthProvider(mechanism: string): AuthProvider | undefined {
+  return CUSTOM_AUTH_PROVIDERS.get(mechanism.toUpperCase());
 }
@@ -0,0 +1,265 @@
+import { nextTick } from 'next-tick';
+
+import type { Document } from '../../bson.ts';
+import { MongoMissingCredentialsError, MongoRuntimeError } from '../../error.ts';
+import type { Callback } from '../../utils.ts';
+import type { AWSSigningCredentials } from './aws_signature.ts';
+import type { AuthMechanismProperties, MongoCredentials } from './mongo_credentials.ts';
+
+const DEFAULT_STS_ENDPOINT = 'https://sts.amazonaws.com';
+const DEFAULT_ECS_ENDPOINT = 'http://169.254.170.2';
+const DEFAULT_EC2_ENDPOINT = 'http://169.254.169.254';
+const EC2_CREDENTIALS_PATH = '/latest/meta-data/iam/security-credentials';
+const REQUEST_TIMEOUT_MS = 10000;
+/** Temporary credentials this close to their expiration are not used anymore */
+const EXPIRATION_WINDOW_MS = 5 * 60 * 1000;
+
+/** @internal */
+export interface AWSCredentials extends AWSSigningCredentials {
+  /** When temporary credentials stop being valid */
+  expiration?: Date;
+}
+
+/** The temporary credentials obtained from one set of endpoints */
+interface TemporaryCredentialsCacheEntry {
+  cached?: AWSCredentials;
+  /** The lookup in progress, connections authenticating meanwhile wait for its result */
+  pending?: Promise<AWSCredentials>;
+}
+
+/**
+ * Temporary credentials obtained from the environment the process runs in, by the endpoints they
+ * were requested from. They are shared by every client using the same endpoints.
+ */
+const temporaryCredentialsCache = new Map<string, TemporaryCredentialsCacheEntry>();
+
+/**
+ * Resolves the AWS credentials to authenticate with, trying in order:
+ *  1. the username, password and `AWS_SESSION_TOKEN` of `credentials`
+ *  2. the `AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY` and `AWS_SESSION_TOKEN` environment variables
+ *  3. `AssumeRoleWithWebIdentity`, if `AWS_WEB_IDENTITY_TOKEN_FILE` and `AWS_ROLE_ARN` are set
+ *  4. the ECS container endpoint, if `AWS_CONTAINER_CREDENTIALS_RELATIVE_URI` is set
+ *  5. the EC2 instance metadata service
+ *
+ * The temporary credentials of the last three are cached until shortly before they expire.
+ * @internal
+ */
+export function fetchAWSCredentials(
+  credentials: MongoCredentials,
+  callback: Callback<AWSCredentials>
+): void {
+  let resolved: Promise<AWSCredentials>;
+  try {
+    resolved = resolveCredentials(credentials);
+  } catch (error) {
+    return callback(error);
+  }
+
+  resolved.then(
+    awsCredentials => nextTick(() => callback(undefined, awsCredentials)),
+    error => nextTick(() => callback(error))
+  );
+}
+
+/**
+ * Drops `awsCredentials` from the cache, e.g. because the server rejected them.
+ * @internal
+ */
+export function invalidateAWSCredentials(awsCredentials: AWSCredentials): void {
+  for (const entry of temporaryCredentialsCache.values()) {
+    if (entry.cached === awsCredentials) {
+      entry.cached = undefined;
+    }
+  }
+}
+
+function resolveCredentials(credentials: MongoCredentials): Promise<AWSCredentials> {
+  if (credentials.username) {
+    if (!credentials.password) {
+      return Promise.reject(
+        new MongoMissingCredentialsError(
+          'MONGODB-AWS requires a secret access key (password) alongside the access key id'
+        )
+      );
+    }
+
+    return Promise.resolve({
+      accessKeyId: credentials.username,
+      secretAccessKey: credentials.password,
+      sessionToken: credentials.mechanismProperties.AWS_SESSION_TOKEN
+    });
+  }
+
+  const accessKeyId = Deno.env.get('AWS_ACCESS_KEY_ID');
+  const secretAccessKey = Deno.env.get('AWS_SECRET_ACCESS_KEY');
+  if (accessKeyId && secretAccessKey) {
+    return Promise.resolve({
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: Deno.env.get('AWS_SESSION_TOKEN')
+    });
+  }
+
+  const properties = credentials.mechanismProperties;
+  const cacheKey = [
+    properties.AWS_STS_ENDPOINT ?? DEFAULT_STS_ENDPOINT,
+    properties.AWS_ECS_ENDPOINT ?? DEFAULT_ECS_ENDPOINT,
+    properties.AWS_EC2_ENDPOINT ?? DEFAULT_EC2_ENDPOINT
+  ].join(' ');
+  let entry = temporaryCredentialsCache.get(cacheKey);
+  if (!entry) {
+    entry = {};
+    temporaryCredentialsCache.set(cacheKey, entry);
+  }
+
+  if (entry.cached && !isExpiring(entry.cached)) {
+    return Promise.resolve(entry.cached);
+  }
+
+  if (entry.pending) {
+    return entry.pending;
+  }
+
+  const cacheEntry = entry;
+  const pending = fetchTemporaryCredentials(properties)
+    .then(temporaryCredentials => (cacheEntry.cached = temporaryCredentials))
+    .finally(() => {
+      cacheEntry.pending = undefined;
+    });
+  cacheEntry.pending = pending;
+  return pending;
+}
+
+function isExpiring(awsCredentials: AWSCredentials): boolean {
+  const expiration = awsCredentials.expiration;
+  return expiration != null && expiration.getTime() - EXPIRATION_WINDOW_MS <= Date.now();
+}
+
+function fetchTemporaryCredentials(properties: AuthMechanismProperties): Promise<AWSCredentials> {
+  const tokenFile = Deno.env.get('AWS_WEB_IDENTITY_TOKEN_FILE');
+  const roleArn = Deno.env.get('AWS_ROLE_ARN');
+  if (tokenFile && roleArn) {
+    return fetchWebIdentityCredentials(tokenFile, roleArn, properties);
+  }
+
+  // If the environment variable AWS_CONTAINER_CREDENTIALS_RELATIVE_URI
+  // is set then drivers MUST assume that it was set by an AWS ECS agent
+  const relativeUri = Deno.env.get('AWS_CONTAINER_CREDENTIALS_RELATIVE_URI');
+  if (relativeUri) {
+    const endpoint = properties.AWS_ECS_ENDPOINT ?? DEFAULT_ECS_ENDPOINT;
+    return requestJSON(`${endpoint}${relativeUri}`).then(response =>
+      toAWSCredentials('the ECS container endpoint', response, 'Token')
+    );
+  }
+
+  // Otherwise assume we are on an EC2 instance
+  return fetchInstanceCredentials(properties);
+}
+
+async function fetchWebIdentityCredentials(
+  tokenFile: string,
+  roleArn: string,
+  properties: AuthMechanismProperties
+): Promise<AWSCredentials> {
+  const webIdentityToken = (await Deno.readTextFile(tokenFile)).trim();
+  const body = new URLSearchParams({
+    Action: 'AssumeRoleWithWebIdentity',
+    Version: '2011-06-15',
+    RoleArn: roleArn,
+    RoleSessionName: Deno.env.get('AWS_ROLE_SESSION_NAME') || `mongodb-driver-${Date.now()}`,
+    WebIdentityToken: webIdentityToken
+  });
+
+  const response = await requestJSON(properties.AWS_STS_ENDPOINT ?? DEFAULT_STS_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: body.toString()
+  });
+
+  return toAWSCredentials(
+    'AssumeRoleWithWebIdentity',
+    response.AssumeRoleWithWebIdentityResponse?.AssumeRoleWithWebIdentityResult?.Credentials,
+    'SessionToken'
+  );
+}
+
+async function fetchInstanceCredentials(
+  properties: AuthMechanismProperties
+): Promise<AWSCredentials> {
+  const endpoint = properties.AWS_EC2_ENDPOINT ?? DEFAULT_EC2_ENDPOINT;
+
+  const token = await request(`${endpoint}/latest/api/token`, {
+    method: 'PUT',
+    headers: { 'X-aws-ec2-metadata-token-ttl-seconds': '30' }
+  });
+  const headers = { 'X-aws-ec2-metadata-token': token };
+
+  const roleName = (await request(`${endpoint}${EC2_CREDENTIALS_PATH}/`, { headers })).trim();
+  const response = await requestJSON(`${endpoint}${EC2_CREDENTIALS_PATH}/${roleName}`, {
+    headers
+  });
+
+  return toAWSCredentials('the EC2 instance metadata service', response, 'Token');
+}
+
+function toAWSCredentials(
+  source: string,
+  document: Document | undefined,
+  tokenField: 'Token' | 'SessionToken'
+): AWSCredentials {
+  const accessKeyId = document?.AccessKeyId;
+  const secretAccessKey = document?.SecretAccessKey;
+  const sessionToken = document?.[tokenField];
+  if (
+    typeof accessKeyId !== 'string' ||
+    typeof secretAccessKey !== 'string' ||
+    typeof sessionToken !== 'string'
+  ) {
+    throw new MongoMissingCredentialsError(
+      `Could not obtain temporary MONGODB-AWS credentials from ${source}`
+    );
+  }
+
+  return {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken,
+    expiration: parseExpiration(document?.Expiration)
+  };
+}
+
+/** STS reports the expiration in epoch seconds, the metadata services as an ISO date string */
+function parseExpiration(value: unknown): Date | undefined {
+  if (typeof value === 'number') {
+    return new Date(value * 1000);
+  }
+
+  if (typeof value === 'string') {
+    const expiration = new Date(value);
+    return Number.isNaN(expiration.getTime()) ? undefined : expiration;
+  }
+}
+
+async function request(url: string, init: RequestInit = {}): Promise<string> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const text = await response.text();
+  if (!response.ok) {
+    // TODO(NODE-3483)
+    throw new MongoRuntimeError(`Request to ${url} failed with status ${response.status}`);
+  }
+
+  return text;
+}
+
+async function requestJSON(url: string, init?: RequestInit): Promise<Document> {
+  const text = await request(url, init);
+  try {
+    return JSON.parse(text);
+  } catch {
+    // TODO(NODE-3483)
+    throw new MongoRuntimeError(`Invalid JSON response: "${text}"`);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * AWS Signature Version 4 request signing, built on Web Crypto.
+ * See https://docs.aws.amazon.com/general/latest/gr/sigv4_signing.html
+ */
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+/** @internal */
+export interface AWSSigningCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/** @internal */
+export interface AWSSignatureRequest {
+  method: string;
+  host: string;
+  /** The absolute path of the request, without a query string */
+  path: string;
+  region: string;
+  service: string;
+  /** Headers to sign, `host` and `x-amz-date` are added automatically */
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** @internal */
+export interface AWSSignature {
+  /** The value of the `Authorization` header */
+  authorization: string;
+  /** The value of the `X-Amz-Date` header the signature covers */
+  amzDate: string;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/** Formats `date` as `YYYYMMDD'T'HHMMSS'Z'` */
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+/**
+ * Signs `request` with `credentials`. When the credentials carry a session token, the
+ * `x-amz-security-token` header is signed too, so it must be sent along with the request.
+ * @internal
+ */
+export async function signRequest(
+  request: AWSSignatureRequest,
+  credentials: AWSSigningCredentials,
+  date: Date = new Date()
+): Promise<AWSSignature> {
+  const amzDate = toAmzDate(date);
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers = new Map<string, string>();
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers.set(name.toLowerCase(), String(value).trim().replace(/\s+/g, ' '));
+  }
+  headers.set('host', request.host);
+  headers.set('x-amz-date', amzDate);
+  if (credentials.sessionToken) {
+    headers.set('x-amz-security-token', credentials.sessionToken);
+  }
+
+  const headerNames = Array.from(headers.keys()).sort();
+  const canonicalHeaders = headerNames.map(name => `${name}:${headers.get(name)}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    '', // no query string
+    canonicalHeaders,
+    signedHeaders,
+    await sha256Hex(request.body)
+  ].join('\n');
+
+  const scope = `${dateStamp}/${request.region}/${request.service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = await hmac(encoder.encode(`AWS4${credentials.secretAccessKey}`), dateStamp);
+  const regionKey = await hmac(dateKey, request.region);
+  const serviceKey = await hmac(regionKey, request.service);
+  const signingKey = await hmac(serviceKey, 'aws4_request');
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    amzDate
+  };
+}
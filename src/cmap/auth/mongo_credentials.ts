@@ -3,6 +3,7 @@ import type { Document } from '../../bson.ts';
 import { MongoAPIError, MongoMissingCredentialsError } from '../../error.ts';
 import { emitWarningOnce } from '../../utils.ts';
 import { GSSAPICanonicalizationValue } from './gssapi.ts';
+import type { OIDCRefreshFunction, OIDCRequestFunction } from './mongodb_oidc.ts';
 import { AUTH_MECHS_AUTH_SRC_EXTERNAL, AuthMechanism } from './providers.ts';
 
 // https://github.com/mongodb/specifications/blob/master/source/auth/auth.rst
@@ -33,8 +34,39 @@ export interface AuthMechanismProperties extends Document {
   SERVICE_REALM?: string;
   CANONICALIZE_HOST_NAME?: GSSAPICanonicalizationValue;
   AWS_SESSION_TOKEN?: string;
+  /** Overrides the STS endpoint used for `AssumeRoleWithWebIdentity` (`MONGODB-AWS`) */
+  AWS_STS_ENDPOINT?: string;
+  /** Overrides the ECS container credentials endpoint (`MONGODB-AWS`) */
+  AWS_ECS_ENDPOINT?: string;
+  /** Overrides the EC2 instance metadata endpoint (`MONGODB-AWS`) */
+  AWS_EC2_ENDPOINT?: string;
+  /** Obtains an access token from the identity provider, required for `MONGODB-OIDC` */
+  REQUEST_TOKEN_CALLBACK?: OIDCRequestFunction;
+  /** Exchanges the refresh token of a previous result for a new access token (`MONGODB-OIDC`) */
+  REFRESH_TOKEN_CALLBACK?: OIDCRefreshFunction;
 }
 
+/**
+ * The credentials returned by a {@link CredentialProvider}. Fields that are left out keep the
+ * value configured on the client.
+ * @public
+ */
+export interface ProvidedCredentials {
+  username?: string;
+  password?: string;
+  /** The client certificate chain in PEM format */
+  cert?: string;
+  /** The private key of the client certificate in PEM format */
+  key?: string;
+}
+
+/**
+ * Consulted by the connection pools each time they open a connection, so that rotated secrets
+ * are picked up without recreating the client.
+ * @public
+ */
+export type CredentialProvider = () => Promise<ProvidedCredentials>;
+
 /** @public */
 export interface MongoCredentialsOptions {
   username: string;
@@ -71,26 +103,6 @@ export class MongoCredentials {
     this.mechanism = options.mechanism || AuthMechanism.MONGODB_DEFAULT;
     this.mechanismProperties = options.mechanismProperties || {};
 
-    if (this.mechanism.match(/MONGODB-AWS/i)) {
-      if (!this.username && process.env.AWS_ACCESS_KEY_ID) {
-        this.username = process.env.AWS_ACCESS_KEY_ID;
-      }
-
-      if (!this.password && process.env.AWS_SECRET_ACCESS_KEY) {
-        this.password = process.env.AWS_SECRET_ACCESS_KEY;
-      }
-
-      if (
-        this.mechanismProperties.AWS_SESSION_TOKEN == null &&
-        process.env.AWS_SESSION_TOKEN != null
-      ) {
-        this.mechanismProperties = {
-          ...this.mechanismProperties,
-          AWS_SESSION_TOKEN: process.env.AWS_SESSION_TOKEN
-        };
-      }
-    }
-
     if ('gssapiCanonicalizeHostName' in this.mechanismProperties) {
       emitWarningOnce(
         'gssapiCanonicalizeHostName is deprecated. Please use CANONICALIZE_HOST_NAME instead.'
@@ -169,6 +181,24 @@ export class MongoCredentials {
       throw new MongoAPIError(`Password not allowed for mechanism MONGODB-X509`);
     }
 
+    if (this.mechanism === AuthMechanism.MONGODB_OIDC) {
+      if (this.password) {
+        // TODO(NODE-3485): Replace this with a MongoAuthValidationError
+        throw new MongoAPIError(`Password not allowed for mechanism MONGODB-OIDC`);
+      }
+
+      if (typeof this.mechanismProperties.REQUEST_TOKEN_CALLBACK !== 'function') {
+        throw new MongoMissingCredentialsError(
+          'MONGODB-OIDC requires a REQUEST_TOKEN_CALLBACK function in authMechanismProperties'
+        );
+      }
+
+      const refresh = this.mechanismProperties.REFRESH_TOKEN_CALLBACK;
+      if (refresh != null && typeof refresh !== 'function') {
+        throw new MongoAPIError('REFRESH_TOKEN_CALLBACK must be a function');
+      }
+    }
+
     const canonicalization = this.mechanismProperties.CANONICALIZE_HOST_NAME ?? false;
     if (!Object.values(GSSAPICanonicalizationValue).includes(canonicalization)) {
       throw new MongoAPIError(`Invalid CANONICALIZE_HOST_NAME value: ${canonicalization}`);
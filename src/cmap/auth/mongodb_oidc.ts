@@ -0,0 +1,294 @@
+import { Binary, deserialize, Document, serialize } from '../../bson.ts';
+import { MongoMissingCredentialsError, MongoRuntimeError, MongoServerError } from '../../error.ts';
+import { Callback, now, ns } from '../../utils.ts';
+import type { HandshakeDocument } from '../connect.ts';
+import { AuthContext, AuthProvider } from './auth_provider.ts';
+import type { MongoCredentials } from './mongo_credentials.ts';
+import { AuthMechanism } from './providers.ts';
+
+/** Cached access tokens this close to their expiry are not presented to the server anymore */
+const EXPIRY_WINDOW_MS = 5 * 60 * 1000;
+/** How long a callback may run before the signal it was given is aborted */
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+/** Server error code for a rejected authentication conversation */
+const AUTHENTICATION_FAILED = 18;
+
+/**
+ * The identity provider details returned by the server in the first step of the conversation.
+ * @public
+ */
+export interface OIDCIdPInfo {
+  /** URL of the identity provider that issues the access tokens */
+  issuer: string;
+  /** The client id the server is registered with at the identity provider */
+  clientId: string;
+  /** Scopes to request alongside the access token */
+  requestScopes?: string[];
+}
+
+/** @public */
+export interface OIDCCallbackContext {
+  /** The username of the credentials, if one was provided */
+  principalName?: string;
+  idpInfo: OIDCIdPInfo;
+  /** Aborted once the callback has been running for five minutes */
+  signal: AbortSignal;
+}
+
+/** @public */
+export interface OIDCRefreshContext extends OIDCCallbackContext {
+  /** The refresh token returned alongside the access token being replaced */
+  refreshToken: string;
+}
+
+/** @public */
+export interface OIDCTokenResult {
+  accessToken: string;
+  /** The lifetime of the access token, it is requested again shortly before it expires */
+  expiresInSeconds?: number;
+  /** Passed to `REFRESH_TOKEN_CALLBACK` once the access token has to be replaced */
+  refreshToken?: string;
+}
+
+/** @public */
+export type OIDCRequestFunction = (context: OIDCCallbackContext) => Promise<OIDCTokenResult>;
+
+/** @public */
+export type OIDCRefreshFunction = (context: OIDCRefreshContext) => Promise<OIDCTokenResult>;
+
+/** The state shared by every connection authenticating with the same credentials */
+interface OIDCCacheEntry {
+  idpInfo?: OIDCIdPInfo;
+  accessToken?: string;
+  /** The `now()` timestamp at which the access token expires */
+  expiresAt?: number;
+  refreshToken?: string;
+  /** The callback in progress, connections needing a token meanwhile wait for its result */
+  pending?: Promise<string>;
+}
+
+export class MongoDBOIDC extends AuthProvider {
+  /** Tokens are cached per credentials, so they are shared by the pools of a client */
+  cache = new WeakMap<MongoCredentials, OIDCCacheEntry>();
+
+  override prepare(
+    handshakeDoc: HandshakeDocument,
+    authContext: AuthContext,
+    callback: Callback<HandshakeDocument>
+  ): void {
+    const { credentials } = authContext;
+    if (!credentials) {
+      return callback(new MongoMissingCredentialsError('AuthContext must provide credentials.'));
+    }
+
+    // Without a token the conversation needs the server's identity provider details first,
+    // which a speculative attempt cannot provide
+    const accessToken = cachedAccessToken(this.cacheEntry(credentials));
+    if (accessToken) {
+      authContext.accessToken = accessToken;
+      Object.assign(handshakeDoc, {
+        speculativeAuthenticate: Object.assign(jwtStepCommand(accessToken), {
+          db: credentials.source
+        })
+      });
+    }
+
+    callback(undefined, handshakeDoc);
+  }
+
+  override auth(authContext: AuthContext, callback: Callback): void {
+    const { connection, credentials } = authContext;
+    if (!credentials) {
+      return callback(new MongoMissingCredentialsError('AuthContext must provide credentials.'));
+    }
+
+    if (authContext.response?.speculativeAuthenticate?.done) {
+      return callback();
+    }
+
+    const entry = this.cacheEntry(credentials);
+    const accessToken = cachedAccessToken(entry);
+    if (accessToken) {
+      authenticateWithToken(authContext, accessToken, err => {
+        if (err instanceof MongoServerError && err.code === AUTHENTICATION_FAILED) {
+          // the token was rejected (e.g. revoked), so obtain a new one
+          invalidateAccessToken(entry, accessToken);
+          return this.auth(authContext, callback);
+        }
+
+        callback(err);
+      });
+      return;
+    }
+
+    if (entry.idpInfo) {
+      // the identity provider is already known, so the first step can be skipped
+      fetchAccessToken(credentials, entry, entry.idpInfo, (err, token) => {
+        if (err || !token) {
+          return callback(err);
+        }
+
+        authenticateWithToken(authContext, token, callback);
+      });
+      return;
+    }
+
+    const db = credentials.source;
+    const principal: Document = credentials.username ? { n: credentials.username } : {};
+    const saslStart = {
+      saslStart: 1,
+      mechanism: AuthMechanism.MONGODB_OIDC,
+      payload: new Binary(serialize(principal))
+    };
+
+    connection.command(ns(`${db}.$cmd`), saslStart, undefined, (err, response) => {
+      if (err) {
+        return callback(err);
+      }
+
+      const idpInfo = deserialize(response.payload.buffer) as OIDCIdPInfo;
+      if (typeof idpInfo.issuer !== 'string') {
+        return callback(
+          new MongoRuntimeError('MONGODB-OIDC server response is missing the identity provider')
+        );
+      }
+      entry.idpInfo = idpInfo;
+
+      fetchAccessToken(credentials, entry, idpInfo, (err, token) => {
+        if (err || !token) {
+          return callback(err);
+        }
+
+        authContext.accessToken = token;
+        const saslContinue = {
+          saslContinue: 1,
+          conversationId: response.conversationId,
+          payload: jwtPayload(token)
+        };
+        connection.command(ns(`${db}.$cmd`), saslContinue, undefined, err => callback(err));
+      });
+    });
+  }
+
+  override reauth(context: AuthContext, callback: Callback): void {
+    const { credentials, accessToken } = context;
+    if (credentials && accessToken) {
+      // the server no longer accepts the token, unless another connection already replaced it
+      invalidateAccessToken(this.cacheEntry(credentials), accessToken);
+    }
+
+    super.reauth(context, callback);
+  }
+
+  private cacheEntry(credentials: MongoCredentials): OIDCCacheEntry {
+    let entry = this.cache.get(credentials);
+    if (!entry) {
+      entry = {};
+      this.cache.set(credentials, entry);
+    }
+
+    return entry;
+  }
+}
+
+function jwtPayload(accessToken: string): Binary {
+  return new Binary(serialize({ jwt: accessToken }));
+}
+
+function jwtStepCommand(accessToken: string): Document {
+  return {
+    saslStart: 1,
+    mechanism: AuthMechanism.MONGODB_OIDC,
+    payload: jwtPayload(accessToken)
+  };
+}
+
+function authenticateWithToken(authContext: AuthContext, accessToken: string, callback: Callback) {
+  const { connection, credentials } = authContext;
+  authContext.accessToken = accessToken;
+  connection.command(
+    ns(`${credentials?.source}.$cmd`),
+    jwtStepCommand(accessToken),
+    undefined,
+    err => callback(err)
+  );
+}
+
+function cachedAccessToken(entry: OIDCCacheEntry): string | undefined {
+  if (entry.expiresAt != null && entry.expiresAt - EXPIRY_WINDOW_MS <= now()) {
+    return;
+  }
+
+  return entry.accessToken;
+}
+
+function invalidateAccessToken(entry: OIDCCacheEntry, accessToken: string) {
+  if (entry.accessToken === accessToken) {
+    entry.accessToken = undefined;
+    entry.expiresAt = undefined;
+  }
+}
+
+function fetchAccessToken(
+  credentials: MongoCredentials,
+  entry: OIDCCacheEntry,
+  idpInfo: OIDCIdPInfo,
+  callback: Callback<string>
+) {
+  if (!entry.pending) {
+    entry.pending = requestAccessToken(credentials, entry, idpInfo).finally(() => {
+      entry.pending = undefined;
+    });
+  }
+
+  entry.pending.then(
+    accessToken => callback(undefined, accessToken),
+    error => callback(error)
+  );
+}
+
+/** Runs the refresh callback if there is a refresh token, and the request callback otherwise */
+async function requestAccessToken(
+  credentials: MongoCredentials,
+  entry: OIDCCacheEntry,
+  idpInfo: OIDCIdPInfo
+): Promise<string> {
+  const { REQUEST_TOKEN_CALLBACK: request, REFRESH_TOKEN_CALLBACK: refresh } =
+    credentials.mechanismProperties;
+  const context: OIDCCallbackContext = {
+    principalName: credentials.username || undefined,
+    idpInfo,
+    signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS)
+  };
+
+  let result: OIDCTokenResult | undefined;
+  if (refresh && entry.refreshToken) {
+    try {
+      result = await refresh({ ...context, refreshToken: entry.refreshToken });
+    } catch {
+      // refresh tokens expire and get revoked too, fall back to a full request
+      entry.refreshToken = undefined;
+    }
+  }
+
+  if (!result) {
+    if (!request) {
+      throw new MongoMissingCredentialsError('MONGODB-OIDC requires a REQUEST_TOKEN_CALLBACK');
+    }
+    result = await request(context);
+  }
+
+  if (typeof result?.accessToken !== 'string' || result.accessToken === '') {
+    throw new MongoMissingCredentialsError(
+      'MONGODB-OIDC callbacks must return an object with an accessToken'
+    );
+  }
+
+  entry.accessToken = result.accessToken;
+  entry.expiresAt =
+    typeof result.expiresInSeconds === 'number'
+      ? now() + result.expiresInSeconds * 1000
+      : undefined;
+  entry.refreshToken = result.refreshToken;
+  return result.accessToken;
+}
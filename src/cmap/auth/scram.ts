@@ -1,4 +1,4 @@
-import * as crypto from 'crypto';
+import { createHash } from 'crypto';
 
 import { Binary, Document } from '../../bson.ts';
 import { saslprep } from 'https://deno.land/x/mongo@v0.29.4/src/utils/saslprep/mod.ts';
@@ -35,22 +35,18 @@ class ScramSHA extends AuthProvider {
       emitWarning('Warning: no saslprep library specified. Passwords will not be sanitized');
     }
 
-    crypto.randomBytes(24, (err, nonce) => {
-      if (err) {
-        return callback(err);
-      }
+    const nonce = Buffer.from(crypto.getRandomValues(new Uint8Array(24)));
 
-      // store the nonce for later use
-      Object.assign(authContext, { nonce });
+    // store the nonce for later use
+    Object.assign(authContext, { nonce });
 
-      const request = Object.assign({}, handshakeDoc, {
-        speculativeAuthenticate: Object.assign(makeFirstMessage(cryptoMethod, credentials, nonce), {
-          db: credentials.source
-        })
-      });
-
-      callback(undefined, request);
+    const request = Object.assign({}, handshakeDoc, {
+      speculativeAuthenticate: Object.assign(makeFirstMessage(cryptoMethod, credentials, nonce), {
+        db: credentials.source
+      })
     });
+
+    callback(undefined, request);
   }
 
   override auth(authContext: AuthContext, callback: Callback) {
@@ -137,7 +133,6 @@ function continueScramConversation(
   authContext: AuthContext,
   callback: Callback
 ) {
-  const connection = authContext.connection;
   const credentials = authContext.credentials;
   if (!credentials) {
     return callback(new MongoMissingCredentialsError('AuthContext must provide credentials.'));
@@ -147,7 +142,6 @@ function continueScramConversation(
   }
   const nonce = authContext.nonce;
 
-  const db = credentials.source;
   const username = cleanUsername(credentials.username);
   const password = credentials.password;
 
@@ -187,25 +181,38 @@ function continueScramConversation(
 
   // Set up start of proof
   const withoutProof = `c=biws,r=${rnonce}`;
-  const saltedPassword = HI(
-    processedPassword,
-    Buffer.from(salt, 'base64'),
-    iterations,
-    cryptoMethod
-  );
-
-  const clientKey = HMAC(cryptoMethod, saltedPassword, 'Client Key');
-  const serverKey = HMAC(cryptoMethod, saltedPassword, 'Server Key');
-  const storedKey = H(cryptoMethod, clientKey);
   const authMessage = [clientFirstMessageBare(username, nonce), payload.value(), withoutProof].join(
     ','
   );
 
-  const clientSignature = HMAC(cryptoMethod, storedKey, authMessage);
-  const clientProof = `p=${xor(clientKey, clientSignature)}`;
-  const clientFinal = [withoutProof, clientProof].join(',');
+  getScramKeys(cryptoMethod, credentials, processedPassword, salt, iterations)
+    .then(async ({ clientKey, serverKey, storedKey }) => {
+      const clientSignature = await HMAC(cryptoMethod, storedKey, authMessage);
+      const serverSignature = await HMAC(cryptoMethod, serverKey, authMessage);
+      return { clientProof: `p=${xor(clientKey, clientSignature)}`, serverSignature };
+    })
+    .then(
+      ({ clientProof, serverSignature }) =>
+        finishScramConversation(
+          authContext,
+          response,
+          [withoutProof, clientProof].join(','),
+          serverSignature,
+          callback
+        ),
+      error => callback(error)
+    );
+}
 
-  const serverSignature = HMAC(cryptoMethod, serverKey, authMessage);
+function finishScramConversation(
+  authContext: AuthContext,
+  response: Document,
+  clientFinal: string,
+  serverSignature: Uint8Array,
+  callback: Callback
+) {
+  const { connection, credentials } = authContext;
+  const db = credentials?.source;
   const saslContinueCmd = {
     saslContinue: 1,
     conversationId: response.conversationId,
@@ -262,13 +269,14 @@ function passwordDigest(username: string, password: string) {
     throw new MongoInvalidArgumentError('Password cannot be empty');
   }
 
-  const md5 = crypto.createHash('md5');
+  // Web Crypto does not implement MD5
+  const md5 = createHash('md5');
   md5.update(`${username}:mongo:${password}`, 'utf8');
   return md5.digest('hex');
 }
 
 // XOR two buffers
-function xor(a: Buffer, b: Buffer) {
+function xor(a: Uint8Array, b: Uint8Array) {
   if (!Buffer.isBuffer(a)) {
     a = Buffer.from(a);
   }
@@ -287,54 +295,106 @@ function xor(a: Buffer, b: Buffer) {
   return Buffer.from(res).toString('base64');
 }
 
-function H(method: CryptoMethod, text: Buffer) {
-  return crypto.createHash(method).update(text).digest();
-}
-
-function HMAC(method: CryptoMethod, key: Buffer, text: Buffer | string) {
-  return crypto.createHmac(method, key).update(text).digest();
-}
-
-interface HICache {
-  [key: string]: Buffer;
-}
-
-let _hiCache: HICache = {};
-let _hiCacheCount = 0;
-function _hiCachePurge() {
-  _hiCache = {};
-  _hiCacheCount = 0;
-}
+const hashAlgorithms = {
+  sha256: 'SHA-256',
+  sha1: 'SHA-1'
+} as const;
 
 const hiLengthMap = {
   sha256: 32,
   sha1: 20
 };
 
-function HI(data: string, salt: Buffer, iterations: number, cryptoMethod: CryptoMethod) {
-  // omit the work if already generated
-  const key = [data, salt.toString('base64'), iterations].join('_');
-  if (_hiCache[key] != null) {
-    return _hiCache[key];
-  }
+interface ScramKeys {
+  clientKey: Uint8Array;
+  serverKey: Uint8Array;
+  storedKey: Uint8Array;
+}
 
-  // generate the salt
-  const saltedData = crypto.pbkdf2Sync(
-    data,
-    salt,
-    iterations,
-    hiLengthMap[cryptoMethod],
-    cryptoMethod
-  );
+/**
+ * The keys derived from the password of each credentials, keyed by hash, salt and iteration
+ * count. Deriving them is expensive by design, so connections authenticating with the same
+ * credentials (e.g. a pool filling up to `minPoolSize`) share a single derivation.
+ */
+const scramKeysCache = new WeakMap<MongoCredentials, Map<string, Promise<ScramKeys>>>();
+
+function getScramKeys(
+  cryptoMethod: CryptoMethod,
+  credentials: MongoCredentials,
+  password: string,
+  salt: string,
+  iterations: number
+): Promise<ScramKeys> {
+  let cache = scramKeysCache.get(credentials);
+  if (!cache) {
+    cache = new Map();
+    scramKeysCache.set(credentials, cache);
+  }
 
-  // cache a copy to speed up the next lookup, but prevent unbounded cache growth
-  if (_hiCacheCount >= 200) {
-    _hiCachePurge();
+  const key = [cryptoMethod, salt, iterations].join('_');
+  let keys = cache.get(key);
+  if (!keys) {
+    const entries = cache;
+    keys = deriveScramKeys(cryptoMethod, password, Buffer.from(salt, 'base64'), iterations);
+    keys.catch(() => entries.delete(key));
+    cache.set(key, keys);
   }
 
-  _hiCache[key] = saltedData;
-  _hiCacheCount += 1;
-  return saltedData;
+  return keys;
+}
+
+async function deriveScramKeys(
+  cryptoMethod: CryptoMethod,
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<ScramKeys> {
+  const saltedPassword = await HI(password, salt, iterations, cryptoMethod);
+  const clientKey = await HMAC(cryptoMethod, saltedPassword, 'Client Key');
+  const serverKey = await HMAC(cryptoMethod, saltedPassword, 'Server Key');
+  const storedKey = await H(cryptoMethod, clientKey);
+  return { clientKey, serverKey, storedKey };
+}
+
+async function H(method: CryptoMethod, text: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(hashAlgorithms[method], text));
+}
+
+async function HMAC(
+  method: CryptoMethod,
+  key: Uint8Array,
+  text: Uint8Array | string
+): Promise<Uint8Array> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: hashAlgorithms[method] },
+    false,
+    ['sign']
+  );
+  const data = typeof text === 'string' ? Buffer.from(text, 'utf8') : text;
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data));
+}
+
+async function HI(
+  data: string,
+  salt: Uint8Array,
+  iterations: number,
+  cryptoMethod: CryptoMethod
+): Promise<Uint8Array> {
+  const passwordKey = await crypto.subtle.importKey(
+    'raw',
+    Buffer.from(data, 'utf8'),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const saltedData = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: hashAlgorithms[cryptoMethod] },
+    passwordKey,
+    hiLengthMap[cryptoMethod] * 8
+  );
+  return new Uint8Array(saltedData);
 }
 
 function compareDigest(lhs: Buffer, rhs: Uint8Array) {
@@ -342,10 +402,6 @@ function compareDigest(lhs: Buffer, rhs: Uint8Array) {
     return false;
   }
 
-  if (typeof crypto.timingSafeEqual === 'function') {
-    return crypto.timingSafeEqual(lhs, rhs);
-  }
-
   let result = 0;
   for (let i = 0; i < lhs.length; i++) {
     result |= lhs[i] ^ rhs[i];
@@ -1,7 +1,14 @@
 import type { Document, ObjectId } from '../bson.ts';
 import { LEGACY_HELLO_COMMAND, LEGACY_HELLO_COMMAND_CAMEL_CASE } from '../constants.ts';
 import { calculateDurationInMs, deepCopy } from '../utils.ts';
-import { GetMore, KillCursor, Msg, WriteProtocolMessageType } from './commands.ts';
+import {
+  BinMsg,
+  flattenDocumentSequences,
+  GetMore,
+  KillCursor,
+  Msg,
+  WriteProtocolMessageType
+} from './commands.ts';
 import type { Connection } from './connection.ts';
 
 /**
@@ -222,7 +229,7 @@ function extractCommand(command: WriteProtocolMessageType): Document {
   }
 
   if (command instanceof Msg) {
-    return deepCopy(command.command);
+    return deepCopy(flattenDocumentSequences(command.command));
   }
 
   if (command.query?.$query) {
@@ -304,6 +311,11 @@ function extractReply(command: WriteProtocolMessageType, reply?: Document) {
   }
 
   if (command instanceof Msg) {
+    // commands asking for the full result (e.g. exhaust getMores) are handed the whole message
+    if (reply instanceof BinMsg) {
+      return deepCopy(reply.documents[0]);
+    }
+
     return deepCopy(reply.result ? reply.result : reply);
   }
 
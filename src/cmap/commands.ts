@@ -657,6 +657,40 @@ export interface OpMsgOptions {
   readPreference: ReadPreference;
 }
 
+/**
+ * A list of documents to be sent as an `OP_MSG` payload type 1 section (a document sequence)
+ * instead of as an array embedded in the command body. The command field holding the
+ * sequence is used as its identifier.
+ *
+ * Each document is serialized on its own, so no array-index keys are written and the
+ * statements never need to be assembled into one large BSON document.
+ * @internal
+ */
+export class DocumentSequence {
+  documents: Document[];
+
+  constructor(documents: Document[]) {
+    this.documents = documents;
+  }
+}
+
+/**
+ * Returns `command` with every document sequence replaced by a plain array, for transports
+ * and consumers that only understand a single command document.
+ * @internal
+ */
+export function flattenDocumentSequences(command: Document): Document {
+  let flattened: Document | undefined;
+  for (const [key, value] of Object.entries(command)) {
+    if (value instanceof DocumentSequence) {
+      flattened = flattened ?? { ...command };
+      flattened[key] = value.documents;
+    }
+  }
+
+  return flattened ?? command;
+}
+
 /** @internal */
 export class Msg {
   ns: string;
@@ -731,7 +765,26 @@ export class Msg {
 
     let totalLength = header.length;
     const command = this.command;
-    totalLength += this.makeDocumentSegment(buffers, command);
+    const sequences: [string, DocumentSequence][] = [];
+    for (const [key, value] of Object.entries(command)) {
+      if (value instanceof DocumentSequence) {
+        sequences.push([key, value]);
+      }
+    }
+
+    if (sequences.length === 0) {
+      totalLength += this.makeDocumentSegment(buffers, command);
+    } else {
+      const body = { ...command };
+      for (const [identifier] of sequences) {
+        delete body[identifier];
+      }
+
+      totalLength += this.makeDocumentSegment(buffers, body);
+      for (const [identifier, sequence] of sequences) {
+        totalLength += this.makeDocumentSequenceSegment(buffers, identifier, sequence.documents);
+      }
+    }
 
     header.writeInt32LE(totalLength, 0); // messageLength
     header.writeInt32LE(this.requestId, 4); // requestID
@@ -752,6 +805,31 @@ export class Msg {
     return payloadTypeBuffer.length + documentBuffer.length;
   }
 
+  makeDocumentSequenceSegment(buffers: Buffer[], identifier: string, documents: Document[]): number {
+    const identifierLength = Buffer.byteLength(identifier, 'utf8');
+    const sectionHeader = Buffer.alloc(
+      1 + // payloadType
+        4 + // size
+        identifierLength +
+        1 // identifier null terminator
+    );
+    sectionHeader[0] = 1;
+    sectionHeader.write(identifier, 5, 'utf8');
+    sectionHeader[5 + identifierLength] = 0;
+    buffers.push(sectionHeader);
+
+    // the size covers everything in the section except the payload type byte
+    let size = sectionHeader.length - 1;
+    for (const document of documents) {
+      const documentBuffer = this.serializeBson(document);
+      buffers.push(documentBuffer);
+      size += documentBuffer.length;
+    }
+
+    sectionHeader.writeInt32LE(size, 1);
+    return size + 1;
+  }
+
   serializeBson(document: Document): Buffer {
     return BSON.serialize(document, {
       checkKeys: this.checkKeys,
@@ -1,57 +1,66 @@
-import type { Socket, SocketConnectOpts } from 'net';
-import * as net from 'net';
-import type { ConnectionOptions as TLSConnectionOpts, TLSSocket } from 'tls';
-import * as tls from 'tls';
-
 import type { Document } from '../bson.ts';
 import { Int32 } from '../bson.ts';
 import { LEGACY_HELLO_COMMAND } from '../constants.ts';
 import {
-  AnyError,
   MongoCompatibilityError,
   MongoError,
   MongoErrorLabel,
   MongoInvalidArgumentError,
+  MongoMissingCredentialsError,
   MongoNetworkError,
   MongoNetworkTimeoutError,
   MongoRuntimeError,
   MongoServerError,
   needsRetryableWriteLabel
 } from '../error.ts';
-import { Callback, ClientMetadata, HostAddress, makeClientMetadata, ns } from '../utils.ts';
-import { AuthContext, AuthProvider } from './auth/auth_provider.ts';
+import {
+  Callback,
+  ClientMetadata,
+  emitWarningOnce,
+  HostAddress,
+  makeClientMetadata,
+  ns
+} from '../utils.ts';
+import { AuthContext, AuthProvider, getCustomAuthProvider } from './auth/auth_provider.ts';
 import { GSSAPI } from './auth/gssapi.ts';
 import { MongoCR } from './auth/mongocr.ts';
 import { MongoDBAWS } from './auth/mongodb_aws.ts';
+import { MongoDBOIDC } from './auth/mongodb_oidc.ts';
 import { Plain } from './auth/plain.ts';
 import { AuthMechanism } from './auth/providers.ts';
 import { ScramSHA1, ScramSHA256 } from './auth/scram.ts';
 import { X509 } from './auth/x509.ts';
 import { Connection, ConnectionOptions, CryptoConnection } from './connection.ts';
+import { socks5Connect } from './socks5.ts';
+import { DenoSocket } from './transport.ts';
 import {
   MAX_SUPPORTED_SERVER_VERSION,
   MAX_SUPPORTED_WIRE_VERSION,
   MIN_SUPPORTED_SERVER_VERSION,
   MIN_SUPPORTED_WIRE_VERSION
 } from './wire_protocol/constants.ts';
-import { nextTick } from 'next-tick';
 
 
 const AUTH_PROVIDERS = new Map<AuthMechanism | string, AuthProvider>([
   [AuthMechanism.MONGODB_AWS, new MongoDBAWS()],
   [AuthMechanism.MONGODB_CR, new MongoCR()],
   [AuthMechanism.MONGODB_GSSAPI, new GSSAPI()],
+  [AuthMechanism.MONGODB_OIDC, new MongoDBOIDC()],
   [AuthMechanism.MONGODB_PLAIN, new Plain()],
   [AuthMechanism.MONGODB_SCRAM_SHA1, new ScramSHA1()],
   [AuthMechanism.MONGODB_SCRAM_SHA256, new ScramSHA256()],
   [AuthMechanism.MONGODB_X509, new X509()]
 ]);
 
+function getAuthProvider(mechanism: AuthMechanism | string): AuthProvider | undefined {
+  return AUTH_PROVIDERS.get(mechanism) ?? getCustomAuthProvider(mechanism);
+}
+
 /** @public */
-export type Stream = Socket | TLSSocket;
+export type Stream = DenoSocket;
 
 export function connect(options: ConnectionOptions, callback: Callback<Connection>): void {
-  makeConnection({ ...options, existingSocket: undefined }, (err, socket) => {
+  makeConnection({ ...options, existingConn: undefined }, (err, socket) => {
     if (err || !socket) {
       return callback(err);
     }
@@ -107,7 +116,7 @@ function performInitialHandshake(
   if (credentials) {
     if (
       !(credentials.mechanism === AuthMechanism.MONGODB_DEFAULT) &&
-      !AUTH_PROVIDERS.get(credentials.mechanism)
+      !getAuthProvider(credentials.mechanism)
     ) {
       callback(
         new MongoInvalidArgumentError(`AuthMechanism '${credentials.mechanism}' not supported`)
@@ -177,7 +186,7 @@ function performInitialHandshake(
         authContext.response = response;
 
         const resolvedCredentials = credentials.resolveAuthMechanism(response);
-        const provider = AUTH_PROVIDERS.get(resolvedCredentials.mechanism);
+        const provider = getAuthProvider(resolvedCredentials.mechanism);
         if (!provider) {
           return callback(
             new MongoInvalidArgumentError(
@@ -195,6 +204,7 @@ function performInitialHandshake(
             }
             return callback(err);
           }
+          conn.authContext = authContext;
           callback(undefined, conn);
         });
 
@@ -206,6 +216,32 @@ function performInitialHandshake(
   });
 }
 
+/**
+ * Runs the authentication conversation of `conn` again, after the server reported that its
+ * authentication expired (e.g. the `MONGODB-OIDC` access token it was given has expired).
+ * @internal
+ */
+export function reauthenticate(conn: Connection, callback: Callback): void {
+  const authContext = conn.authContext;
+  const credentials = authContext?.credentials;
+  if (!authContext || !credentials) {
+    return callback(
+      new MongoMissingCredentialsError('Reauthentication requires an authenticated connection')
+    );
+  }
+
+  const resolvedCredentials = credentials.resolveAuthMechanism(conn.hello ?? undefined);
+  const provider = getAuthProvider(resolvedCredentials.mechanism);
+  if (!provider) {
+    return callback(
+      new MongoInvalidArgumentError(`No AuthProvider for ${resolvedCredentials.mechanism} defined.`)
+    );
+  }
+
+  provider.reauth(authContext, callback);
+}
+
+/** @public */
 export interface HandshakeDocument extends Document {
   /**
    * @deprecated Use hello instead
@@ -237,7 +273,7 @@ function prepareHandshakeDocument(authContext: AuthContext, callback: Callback<H
     if (credentials.mechanism === AuthMechanism.MONGODB_DEFAULT && credentials.username) {
       handshakeDoc.saslSupportedMechs = `${credentials.source}.${credentials.username}`;
 
-      const provider = AUTH_PROVIDERS.get(AuthMechanism.MONGODB_SCRAM_SHA256);
+      const provider = getAuthProvider(AuthMechanism.MONGODB_SCRAM_SHA256);
       if (!provider) {
         // This auth mechanism is always present.
         return callback(
@@ -248,7 +284,7 @@ function prepareHandshakeDocument(authContext: AuthContext, callback: Callback<H
       }
       return provider.prepare(handshakeDoc, authContext, callback);
     }
-    const provider = AUTH_PROVIDERS.get(credentials.mechanism);
+    const provider = getAuthProvider(credentials.mechanism);
     if (!provider) {
       return callback(
         new MongoInvalidArgumentError(`No AuthProvider for ${credentials.mechanism} defined.`)
@@ -288,24 +324,51 @@ export const LEGAL_TCP_SOCKET_OPTIONS = [
   'lookup'
 ] as const;
 
-function parseConnectOptions(options: ConnectionOptions): SocketConnectOpts {
+/** TLS socket options that have no counterpart in Deno's rustls based TLS stack */
+const UNSUPPORTED_TLS_SOCKET_OPTIONS = [
+  'ciphers',
+  'crl',
+  'ecdhCurve',
+  'minDHSize',
+  'passphrase',
+  'pfx',
+  'secureContext',
+  'secureProtocol',
+  'session'
+] as const;
+
+/** @internal */
+type DenoConnectOptions =
+  | (Deno.ConnectOptions & { transport: 'tcp' })
+  | { transport: 'unix'; path: string };
+
+/**
+ * The TLS settings understood by `Deno.connectTls` and `Deno.startTls`.
+ * Client certificates are passed as PEM strings.
+ * @internal
+ */
+interface DenoTlsOptions {
+  hostname: string;
+  caCerts?: string[];
+  alpnProtocols?: string[];
+  cert?: string;
+  key?: string;
+}
+
+function parseConnectOptions(options: ConnectionOptions): DenoConnectOptions {
   const hostAddress = options.hostAddress;
   if (!hostAddress) throw new MongoInvalidArgumentError('Option "hostAddress" is required');
 
-  const result: Partial<net.TcpNetConnectOpts & net.IpcNetConnectOpts> = {};
   for (const name of LEGAL_TCP_SOCKET_OPTIONS) {
     if (options[name] != null) {
-      (result as Document)[name] = options[name];
+      emitWarningOnce(`Socket option '${name}' is not supported by the Deno transport and is ignored`);
     }
   }
 
   if (typeof hostAddress.socketPath === 'string') {
-    result.path = hostAddress.socketPath;
-    return result as net.IpcNetConnectOpts;
+    return { transport: 'unix', path: hostAddress.socketPath };
   } else if (typeof hostAddress.host === 'string') {
-    result.host = hostAddress.host;
-    result.port = hostAddress.port;
-    return result as net.TcpNetConnectOpts;
+    return { transport: 'tcp', hostname: hostAddress.host, port: hostAddress.port ?? 27017 };
   } else {
     // This should never happen since we set up HostAddresses
     // But if we don't throw here the socket could hang until timeout
@@ -314,24 +377,50 @@ function parseConnectOptions(options: ConnectionOptions): SocketConnectOpts {
   }
 }
 
-type MakeConnectionOptions = ConnectionOptions & { existingSocket?: Stream };
+type MakeConnectionOptions = ConnectionOptions & { existingConn?: Deno.Conn };
 
-function parseSslOptions(options: MakeConnectionOptions): TLSConnectionOpts {
-  const result: TLSConnectionOpts = parseConnectOptions(options);
-  // Merge in valid SSL options
-  for (const name of LEGAL_TLS_SOCKET_OPTIONS) {
-    if (options[name] != null) {
-      (result as Document)[name] = options[name];
-    }
-  }
+function toPem(value: unknown): string {
+  return typeof value === 'string' ? value : new TextDecoder().decode(value as Uint8Array);
+}
 
-  if (options.existingSocket) {
-    result.socket = options.existingSocket;
+function parseTlsOptions(options: MakeConnectionOptions): DenoTlsOptions {
+  const hostAddress = options.hostAddress;
+  if (typeof hostAddress?.host !== 'string') {
+    throw new MongoInvalidArgumentError('TLS connections require a TCP host');
   }
 
   // Set default sni servername to be the same as host
-  if (result.servername == null && result.host && !net.isIP(result.host)) {
-    result.servername = result.host;
+  const result: DenoTlsOptions = { hostname: options.servername ?? hostAddress.host };
+
+  if (options.ca != null) {
+    const ca = Array.isArray(options.ca) ? options.ca : [options.ca];
+    result.caCerts = ca.map(toPem);
+  }
+
+  if (options.cert != null) {
+    result.cert = (Array.isArray(options.cert) ? options.cert : [options.cert]).map(toPem).join('\n');
+  }
+
+  if (options.key != null) {
+    result.key = (Array.isArray(options.key) ? options.key : [options.key]).map(toPem).join('\n');
+  }
+
+  if (options.ALPNProtocols != null) {
+    result.alpnProtocols = Array.from(options.ALPNProtocols as ArrayLike<string>, toPem);
+  }
+
+  if (options.rejectUnauthorized === false || options.checkServerIdentity != null) {
+    // Deno only allows disabling certificate validation process wide
+    emitWarningOnce(
+      'Deno cannot disable TLS certificate or hostname validation per connection; ' +
+        'run with --unsafely-ignore-certificate-errors to connect to servers with invalid certificates'
+    );
+  }
+
+  for (const name of UNSUPPORTED_TLS_SOCKET_OPTIONS) {
+    if (options[name] != null) {
+      emitWarningOnce(`TLS option '${name}' is not supported by the Deno transport and is ignored`);
+    }
   }
 
   return result;
@@ -339,173 +428,180 @@ function parseSslOptions(options: MakeConnectionOptions): TLSConnectionOpts {
 
 const SOCKET_ERROR_EVENT_LIST = ['error', 'close', 'timeout', 'parseError'] as const;
 type ErrorHandlerEventName = typeof SOCKET_ERROR_EVENT_LIST[number] | 'cancel';
-const SOCKET_ERROR_EVENTS = new Set(SOCKET_ERROR_EVENT_LIST);
 
-function makeConnection(options: MakeConnectionOptions, _callback: Callback<Stream>) {
-  const useTLS = options.tls ?? false;
-  const keepAlive = options.keepAlive ?? true;
-  const socketTimeoutMS = options.socketTimeoutMS ?? Reflect.get(options, 'socketTimeout') ?? 0;
-  const noDelay = options.noDelay ?? true;
-  const connectTimeoutMS = options.connectTimeoutMS ?? 30000;
-  const rejectUnauthorized = options.rejectUnauthorized ?? true;
-  const keepAliveInitialDelay =
-    ((options.keepAliveInitialDelay ?? 120000) > socketTimeoutMS
-      ? Math.round(socketTimeoutMS / 2)
-      : options.keepAliveInitialDelay) ?? 120000;
-  const existingSocket = options.existingSocket;
-
-  let socket: Stream;
-  const callback: Callback<Stream> = function (err, ret) {
-    if (err && socket) {
-      socket.destroy();
-    }
+/**
+ * Opens a TCP connection to the configured SOCKS5 proxy and asks it to connect to
+ * `options.hostAddress`, returning the resulting tunnel.
+ */
+async function openSocks5Conn(
+  options: MakeConnectionOptions,
+  onConn: (conn: Deno.Conn) => void
+): Promise<Deno.Conn> {
+  const destination = parseConnectOptions(options);
+  if (destination.transport !== 'tcp') {
+    throw new MongoInvalidArgumentError('Can only make Socks5 connections to TCP hosts');
+  }
 
-    _callback(err, ret);
-  };
+  const proxyAddress = HostAddress.fromHostPort(
+    options.proxyHost ?? '', // proxyHost is guaranteed to set here
+    options.proxyPort ?? 1080
+  );
 
+  // First, connect to the proxy server itself:
+  const conn = await Deno.connect({
+    transport: 'tcp',
+    hostname: proxyAddress.host ?? '',
+    port: proxyAddress.port ?? 1080
+  });
+  onConn(conn);
+
+  // Then, establish the Socks5 proxy connection:
+  try {
+    await socks5Connect(conn, {
+      host: destination.hostname ?? '',
+      port: destination.port,
+      username: options.proxyUsername || undefined,
+      password: options.proxyPassword || undefined
+    });
+  } catch (error) {
+    conn.close();
+    throw error;
+  }
+
+  return conn;
+}
+
+/**
+ * Opens the native connection described by `options`: a TCP or unix domain socket, optionally
+ * tunnelled through a SOCKS5 proxy, upgraded to TLS when requested. An existing connection
+ * (e.g. a proxy tunnel) is upgraded in place with `Deno.startTls`.
+ *
+ * `onConn` is notified of every raw connection as soon as it is opened, so that a timed out or
+ * cancelled attempt can close it while a handshake is still pending.
+ */
+async function openConn(
+  options: MakeConnectionOptions,
+  useTLS: boolean,
+  onConn: (conn: Deno.Conn) => void
+): Promise<Deno.Conn> {
+  let existingConn = options.existingConn;
   if (options.proxyHost != null) {
     // Currently, only Socks5 is supported.
-    return makeSocks5Connection(
-      {
-        ...options,
-        connectTimeoutMS // Should always be present for Socks5
-      },
-      callback
-    );
+    existingConn = await openSocks5Conn(options, onConn);
   }
 
-  if (useTLS) {
-    const tlsSocket = tls.connect(parseSslOptions(options));
-    if (typeof tlsSocket.disableRenegotiation === 'function') {
-      tlsSocket.disableRenegotiation();
+  if (!useTLS) {
+    if (existingConn) {
+      return existingConn;
     }
-    socket = tlsSocket;
-  } else if (existingSocket) {
-    // In the TLS case, parseSslOptions() sets options.socket to existingSocket,
-    // so we only need to handle the non-TLS case here (where existingSocket
-    // gives us all we need out of the box).
-    socket = existingSocket;
-  } else {
-    socket = net.createConnection(parseConnectOptions(options));
+
+    const conn = await Deno.connect(parseConnectOptions(options) as Deno.ConnectOptions);
+    onConn(conn);
+    return conn;
   }
 
-  socket.setKeepAlive(keepAlive, keepAliveInitialDelay);
-  socket.setTimeout(connectTimeoutMS);
-  socket.setNoDelay(noDelay);
-
-  const connectEvent = useTLS ? 'secureConnect' : 'connect';
-  let cancellationHandler: (err: Error) => void;
-  function errorHandler(eventName: ErrorHandlerEventName) {
-    return (err: Error) => {
-      SOCKET_ERROR_EVENTS.forEach(event => socket.removeAllListeners(event));
-      if (cancellationHandler && options.cancellationToken) {
-        options.cancellationToken.removeListener('cancel', cancellationHandler);
-      }
+  const tlsOptions = parseTlsOptions(options);
+  let conn: Deno.TlsConn;
+  if (existingConn) {
+    conn = await Deno.startTls(existingConn as Deno.TcpConn, tlsOptions);
+  } else {
+    const { hostname, port } = parseConnectOptions(options) as Deno.ConnectOptions;
+    conn = await Deno.connectTls({ ...tlsOptions, hostname, port });
+  }
+  onConn(conn);
 
-      socket.removeListener(connectEvent, connectHandler);
-      callback(connectionFailureError(eventName, err));
-    };
+  // the handshake is otherwise deferred to the first read or write, surface
+  // certificate errors as connection failures instead
+  try {
+    if (typeof conn.handshake === 'function') {
+      await conn.handshake();
+    }
+  } catch (error) {
+    conn.close();
+    throw error;
   }
 
-  function connectHandler() {
-    SOCKET_ERROR_EVENTS.forEach(event => socket.removeAllListeners(event));
+  return conn;
+}
+
+function makeConnection(options: MakeConnectionOptions, callback: Callback<Stream>) {
+  const useTLS = options.tls ?? false;
+  const keepAlive = options.keepAlive ?? true;
+  const socketTimeoutMS = options.socketTimeoutMS ?? Reflect.get(options, 'socketTimeout') ?? 0;
+  const noDelay = options.noDelay ?? true;
+  const connectTimeoutMS = options.connectTimeoutMS ?? 30000;
+
+  let settled = false;
+  let timeoutId: number | undefined;
+  let cancellationHandler: (() => void) | undefined;
+  // raw connections opened by this attempt, closed if it fails midway
+  const openedConns: Deno.Conn[] = options.existingConn ? [options.existingConn] : [];
+
+  function cleanup() {
+    if (timeoutId != null) {
+      clearTimeout(timeoutId);
+    }
+
     if (cancellationHandler && options.cancellationToken) {
       options.cancellationToken.removeListener('cancel', cancellationHandler);
     }
+  }
+
+  function errorHandler(eventName: ErrorHandlerEventName, err?: Error) {
+    if (settled) return;
+    settled = true;
+    cleanup();
+
+    for (const conn of openedConns) {
+      try {
+        conn.close();
+      } catch {
+        // already closed
+      }
+    }
+
+    callback(connectionFailureError(eventName, err));
+  }
 
-    if ('authorizationError' in socket) {
-      if (socket.authorizationError && rejectUnauthorized) {
-        return callback(socket.authorizationError);
+  function connectHandler(conn: Deno.Conn) {
+    if (settled) {
+      // the attempt timed out or was cancelled while the connection was being established
+      try {
+        conn.close();
+      } catch {
+        // already closed
       }
+      return;
     }
 
+    settled = true;
+    cleanup();
+
+    const socket = new DenoSocket(conn);
+    socket.setKeepAlive(keepAlive);
+    socket.setNoDelay(noDelay);
     socket.setTimeout(socketTimeoutMS);
     callback(undefined, socket);
   }
 
-  SOCKET_ERROR_EVENTS.forEach(event => socket.once(event, errorHandler(event)));
+  if (connectTimeoutMS > 0) {
+    timeoutId = setTimeout(() => errorHandler('timeout'), connectTimeoutMS);
+  }
+
   if (options.cancellationToken) {
-    cancellationHandler = errorHandler('cancel');
+    cancellationHandler = () => errorHandler('cancel');
     options.cancellationToken.once('cancel', cancellationHandler);
   }
 
-  if (existingSocket) {
-    nextTick(connectHandler);
-  } else {
-    socket.once(connectEvent, connectHandler);
-  }
-}
-
-function makeSocks5Connection(options: MakeConnectionOptions, callback: Callback<Stream>) {
-  const hostAddress = HostAddress.fromHostPort(
-    options.proxyHost ?? '', // proxyHost is guaranteed to set here
-    options.proxyPort ?? 1080
-  );
-
-  // First, connect to the proxy server itself:
-  makeConnection(
-    {
-      ...options,
-      hostAddress,
-      tls: false,
-      proxyHost: undefined
-    },
-    (err, rawSocket) => {
-      if (err) {
-        return callback(err);
-      }
-
-      const destination = parseConnectOptions(options) as net.TcpNetConnectOpts;
-      if (typeof destination.host !== 'string' || typeof destination.port !== 'number') {
-        return callback(
-          new MongoInvalidArgumentError('Can only make Socks5 connections to TCP hosts')
-        );
-      }
-
-      // Then, establish the Socks5 proxy connection:
-      SocksClient.createConnection(
-        {
-          existing_socket: rawSocket,
-          timeout: options.connectTimeoutMS,
-          command: 'connect',
-          destination: {
-            host: destination.host,
-            port: destination.port
-          },
-          proxy: {
-            // host and port are ignored because we pass existing_socket
-            host: 'iLoveJavaScript',
-            port: 0,
-            type: 5,
-            userId: options.proxyUsername || undefined,
-            password: options.proxyPassword || undefined
-          }
-        },
-        (err: AnyError, info: { socket: Stream }) => {
-          if (err) {
-            return callback(connectionFailureError('error', err));
-          }
-
-          // Finally, now treat the resulting duplex stream as the
-          // socket over which we send and receive wire protocol messages:
-          makeConnection(
-            {
-              ...options,
-              existingSocket: info.socket,
-              proxyHost: undefined
-            },
-            callback
-          );
-        }
-      );
-    }
+  openConn(options, useTLS, conn => openedConns.push(conn)).then(connectHandler, err =>
+    errorHandler('error', err)
   );
 }
 
-function connectionFailureError(type: ErrorHandlerEventName, err: Error) {
+function connectionFailureError(type: ErrorHandlerEventName, err?: Error) {
   switch (type) {
     case 'error':
-      return new MongoNetworkError(err);
+      return new MongoNetworkError(err ?? 'unknown network error');
     case 'timeout':
       return new MongoNetworkTimeoutError('connection timed out');
     case 'close':
@@ -23,6 +23,7 @@ import type { ServerApi, SupportedNodeConnectionOptions } from '../mongo_client.
 import { CancellationToken, TypedEventEmitter } from '../mongo_types.ts';
 import type { ReadPreference, ReadPreferenceLike } from '../read_preference.ts';
 import { applySession, ClientSession, updateSessionFromResponse } from '../sessions.ts';
+import type { TimeoutContext } from '../timeout.ts';
 import {
   calculateDurationInMs,
   Callback,
@@ -34,7 +35,8 @@ import {
   uuidV4
 } from '../utils.ts';
 import type { WriteConcern } from '../write_concern.ts';
-import type { MongoCredentials } from './auth/mongo_credentials.ts';
+import type { AuthContext } from './auth/auth_provider.ts';
+import type { CredentialProvider, MongoCredentials } from './auth/mongo_credentials.ts';
 import {
   CommandFailedEvent,
   CommandStartedEvent,
@@ -42,6 +44,7 @@ import {
 } from './command_monitoring_events.ts';
 import {
   BinMsg,
+  flattenDocumentSequences,
   GetMore,
   KillCursor,
   Msg,
@@ -73,7 +76,7 @@ const kHello = Symbol('hello');
 /** @internal */
 const kAutoEncrypter = Symbol('autoEncrypter');
 /** @internal */
-const kFullResult = Symbol('fullResult');
+export const kFullResult = Symbol('fullResult');
 /** @internal */
 const kDelayedTimeoutId = Symbol('delayedTimeoutId');
 
@@ -118,6 +121,9 @@ export interface CommandOptions extends BSONSerializeOptions {
   willRetryWrite?: boolean;
 
   writeConcern?: WriteConcern;
+  /** The `timeoutMS` budget of the operation this command belongs to */
+  timeoutContext?: TimeoutContext;
+  signal?: AbortSignal;
 }
 
 /** @internal */
@@ -134,6 +140,8 @@ export interface GetMoreOptions extends CommandOptions {
    * In server versions 4.4 and above, 'comment' can be any valid BSON type.
    */
   comment?: unknown;
+  /** Allow the server to stream every remaining batch as `moreToCome` replies */
+  exhaustAllowed?: boolean;
 }
 
 /** @public */
@@ -160,6 +168,7 @@ export interface ConnectionOptions
   /** @internal */
   connectionType?: typeof Connection;
   credentials?: MongoCredentials;
+  credentialProvider?: CredentialProvider;
   connectTimeoutMS?: number;
   tls: boolean;
   keepAlive?: boolean;
@@ -200,6 +209,8 @@ export class Connection extends TypedEventEmitter<ConnectionEvents> {
   lastHelloMS?: number;
   serverApi?: ServerApi;
   helloOk?: boolean;
+  /** The context the connection was authenticated with, kept for reauthentication */
+  authContext?: AuthContext;
 
   /**@internal */
   [kDelayedTimeoutId]: NodeJS.Timeout | null;
@@ -272,8 +283,8 @@ export class Connection extends TypedEventEmitter<ConnectionEvents> {
     });
 
     // hook the message stream up to the passed in stream
-    this[kStream].pipe(this[kMessageStream]);
-    this[kMessageStream].pipe(this[kStream]);
+    this[kStream].on('data', chunk => this[kMessageStream].write(chunk));
+    this[kMessageStream].on('data', chunk => this[kStream].write(chunk));
   }
 
   get description(): StreamDescription {
@@ -533,6 +544,10 @@ export class Connection extends TypedEventEmitter<ConnectionEvents> {
       finalCmd.$clusterTime = clusterTime;
     }
 
+    if (!shouldUseOpMsg) {
+      finalCmd = flattenDocumentSequences(finalCmd);
+    }
+
     if (isSharded(this) && !shouldUseOpMsg && readPreference && readPreference.mode !== 'primary') {
       finalCmd = {
         $query: finalCmd,
@@ -711,7 +726,9 @@ export class CryptoConnection extends Connection {
       return;
     }
 
-    autoEncrypter.encrypt(ns.toString(), cmd, options, (err, encrypted) => {
+    // the encrypter works on a single command document
+    const command = flattenDocumentSequences(cmd);
+    autoEncrypter.encrypt(ns.toString(), command, options, (err, encrypted) => {
       if (err || encrypted == null) {
         callback(err, null);
         return;
@@ -751,7 +768,7 @@ function streamIdentifier(stream: Stream, options: ConnectionOptions): string {
     return options.hostAddress.toString();
   }
 
-  if (typeof stream.address === 'function') {
+  if (stream.remoteAddress != null) {
     return `${stream.remoteAddress}:${stream.remotePort}`;
   }
 
@@ -795,6 +812,10 @@ function write(
     if (conn[kDescription].zlibCompressionLevel) {
       operationDescription.zlibCompressionLevel = conn[kDescription].zlibCompressionLevel;
     }
+
+    if (conn[kDescription].zstdCompressionLevel) {
+      operationDescription.zstdCompressionLevel = conn[kDescription].zstdCompressionLevel;
+    }
   }
 
   if (typeof options.socketTimeoutMS === 'number') {
@@ -12,12 +12,27 @@ import {
   CONNECTION_POOL_CLEARED,
   CONNECTION_POOL_CLOSED,
   CONNECTION_POOL_CREATED,
+  CONNECTION_POOL_READY,
   CONNECTION_READY
 } from '../constants.ts';
-import { MongoError, MongoInvalidArgumentError, MongoRuntimeError } from '../error.ts';
+import {
+  MongoAbortError,
+  MongoError,
+  MongoInvalidArgumentError,
+  MongoRuntimeError
+} from '../error.ts';
 import { Logger } from '../logger.ts';
 import { CancellationToken, TypedEventEmitter } from '../mongo_types.ts';
-import { Callback, eachAsync, makeCounter } from '../utils.ts';
+import type { TimeoutContext } from '../timeout.ts';
+import {
+  addAbortListener,
+  calculateDurationInMs,
+  Callback,
+  eachAsync,
+  makeCounter,
+  now
+} from '../utils.ts';
+import { MongoCredentials, ProvidedCredentials } from './auth/mongo_credentials.ts';
 import { connect } from './connect.ts';
 import { Connection, ConnectionEvents, ConnectionOptions } from './connection.ts';
 import {
@@ -30,10 +45,11 @@ import {
   ConnectionPoolClearedEvent,
   ConnectionPoolClosedEvent,
   ConnectionPoolCreatedEvent,
+  ConnectionPoolReadyEvent,
   ConnectionReadyEvent
 } from './connection_pool_events.ts';
-import { PoolClosedError, WaitQueueTimeoutError } from './errors.ts';
-import { ConnectionPoolMetrics } from './metrics.ts';
+import { PoolClearedError, PoolClosedError, WaitQueueTimeoutError } from './errors.ts';
+import { ConnectionPoolMetrics, ConnectionPoolStatistics } from './metrics.ts';
 
 /** @internal */
 const kLogger = Symbol('logger');
@@ -61,6 +77,35 @@ const kMetrics = Symbol('metrics');
 const kCheckedOut = Symbol('checkedOut');
 /** @internal */
 const kProcessingWaitQueue = Symbol('processingWaitQueue');
+/** @internal */
+const kPoolState = Symbol('poolState');
+/** @internal */
+const kPending = Symbol('pending');
+/** @internal */
+const kProvidedCredentials = Symbol('providedCredentials');
+/** @internal */
+const kPendingCredentials = Symbol('pendingCredentials');
+
+/**
+ * The last credentials returned by the `credentialProvider`, along with the connection options
+ * made from them. They are reused while the provider keeps returning the same values, so caches
+ * keyed by `MongoCredentials` (e.g. derived SCRAM keys) stay warm.
+ * @internal
+ */
+interface ProvidedConnectOptions {
+  provided: ProvidedCredentials;
+  options: Pick<ConnectionOptions, 'credentials' | 'cert' | 'key'>;
+}
+
+/** @internal */
+export const PoolState = Object.freeze({
+  paused: 'paused',
+  ready: 'ready',
+  closed: 'closed'
+} as const);
+
+/** @internal */
+export type PoolState = typeof PoolState[keyof typeof PoolState];
 
 /** @public */
 export interface ConnectionPoolOptions extends Omit<ConnectionOptions, 'id' | 'generation'> {
@@ -68,6 +113,8 @@ export interface ConnectionPoolOptions extends Omit<ConnectionOptions, 'id' | 'g
   maxPoolSize: number;
   /** The minimum number of connections that MUST exist at any moment in a single connection pool. */
   minPoolSize: number;
+  /** The maximum number of connections that may be in the process of being established concurrently by the connection pool. */
+  maxConnecting: number;
   /** The maximum amount of time a connection should remain idle in the connection pool before being marked idle. */
   maxIdleTimeMS: number;
   /** The maximum amount of time operation execution should wait for a connection to become available. The default is 0 which means there is no limit. */
@@ -76,9 +123,19 @@ export interface ConnectionPoolOptions extends Omit<ConnectionOptions, 'id' | 'g
   loadBalanced: boolean;
 }
 
+/** @internal */
+export interface CheckOutOptions {
+  /** Shortens the wait for a connection to what is left of the operation's `timeoutMS` */
+  timeoutContext?: TimeoutContext;
+  /** Gives up waiting for a connection once aborted */
+  signal?: AbortSignal;
+}
+
 /** @internal */
 export interface WaitQueueMember {
   callback: Callback<Connection>;
+  /** When the checkout was requested */
+  started: number;
   timer?: NodeJS.Timeout;
   [kCancelled]?: boolean;
 }
@@ -93,6 +150,7 @@ export type ConnectionPoolEvents = {
   connectionPoolCreated(event: ConnectionPoolCreatedEvent): void;
   connectionPoolClosed(event: ConnectionPoolClosedEvent): void;
   connectionPoolCleared(event: ConnectionPoolClearedEvent): void;
+  connectionPoolReady(event: ConnectionPoolReadyEvent): void;
   connectionCreated(event: ConnectionCreatedEvent): void;
   connectionReady(event: ConnectionReadyEvent): void;
   connectionClosed(event: ConnectionClosedEvent): void;
@@ -141,6 +199,17 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
   [kCheckedOut]: number;
   /** @internal */
   [kProcessingWaitQueue]: boolean;
+  /** @internal */
+  [kPoolState]: PoolState;
+  /**
+   * An integer expressing how many connections are currently being established
+   * @internal
+   */
+  [kPending]: number;
+  /** @internal */
+  [kProvidedCredentials]?: ProvidedConnectOptions;
+  /** @internal */
+  [kPendingCredentials]?: Promise<ProvidedConnectOptions['options']>;
 
   /**
    * Emitted when the connection pool is created.
@@ -157,6 +226,11 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
    * @event
    */
   static readonly CONNECTION_POOL_CLEARED = CONNECTION_POOL_CLEARED;
+  /**
+   * Emitted each time the connection pool is marked ready
+   * @event
+   */
+  static readonly CONNECTION_POOL_READY = CONNECTION_POOL_READY;
   /**
    * Emitted when a connection is created.
    * @event
@@ -203,6 +277,7 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
       connectionType: Connection,
       maxPoolSize: options.maxPoolSize ?? 100,
       minPoolSize: options.minPoolSize ?? 0,
+      maxConnecting: options.maxConnecting ?? 2,
       maxIdleTimeMS: options.maxIdleTimeMS ?? 0,
       waitQueueTimeoutMS: options.waitQueueTimeoutMS ?? 0,
       autoEncrypter: options.autoEncrypter,
@@ -215,6 +290,10 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
       );
     }
 
+    if (this.options.maxConnecting < 1) {
+      throw new MongoInvalidArgumentError('Connection pool maxConnecting must be greater than 0');
+    }
+
     this[kLogger] = new Logger('ConnectionPool');
     this[kConnections] = new Denque();
     this[kPermits] = this.options.maxPoolSize;
@@ -228,10 +307,12 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
     this[kMetrics] = new ConnectionPoolMetrics();
     this[kCheckedOut] = 0;
     this[kProcessingWaitQueue] = false;
+    // a pool starts out paused, it is marked ready once its server is known to be reachable
+    this[kPoolState] = PoolState.paused;
+    this[kPending] = 0;
 
     nextTick(() => {
       this.emit(ConnectionPool.CONNECTION_POOL_CREATED, new ConnectionPoolCreatedEvent(this));
-      ensureMinPoolSize(this);
     });
   }
 
@@ -271,6 +352,40 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
     return this[kCheckedOut];
   }
 
+  /** An integer expressing how many connections are currently being established */
+  get pendingConnectionCount(): number {
+    return this[kPending];
+  }
+
+  /** Whether the pool is `paused` (failing checkouts), `ready` or `closed` */
+  get state(): PoolState {
+    return this[kPoolState];
+  }
+
+  /**
+   * Returns a snapshot of the pool's connection counts and latencies.
+   */
+  statistics(): ConnectionPoolStatistics {
+    const metrics = this[kMetrics];
+    return {
+      address: this.address,
+      state: this[kPoolState],
+      maxPoolSize: this.options.maxPoolSize,
+      totalConnectionCount: this.totalConnectionCount,
+      availableConnectionCount: this.availableConnectionCount,
+      checkedOutConnectionCount: this.currentCheckedOutCount,
+      pendingConnectionCount: this.pendingConnectionCount,
+      waitQueueSize: this.waitQueueSize,
+      pinnedConnectionCount: {
+        transaction: metrics.txnConnections,
+        cursor: metrics.cursorConnections,
+        other: metrics.otherConnections
+      },
+      connectionCreationLatency: metrics.connectionCreationLatency.snapshot(),
+      checkOutLatency: metrics.checkOutLatency.snapshot()
+    };
+  }
+
   /**
    * Get the metrics information for the pool when a wait queue timeout occurs.
    */
@@ -283,7 +398,7 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
    * will be held by the pool. This means that if a connection is checked out it MUST be checked back in or
    * explicitly destroyed by the new owner.
    */
-  checkOut(callback: Callback<Connection>): void {
+  checkOut(callback: Callback<Connection>, options?: CheckOutOptions): void {
     this.emit(
       ConnectionPool.CONNECTION_CHECK_OUT_STARTED,
       new ConnectionCheckOutStartedEvent(this)
@@ -298,8 +413,41 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
       return;
     }
 
-    const waitQueueMember: WaitQueueMember = { callback };
-    const waitQueueTimeoutMS = this.options.waitQueueTimeoutMS;
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      this.emit(
+        ConnectionPool.CONNECTION_CHECK_OUT_FAILED,
+        new ConnectionCheckOutFailedEvent(this, 'aborted')
+      );
+      callback(new MongoAbortError(signal.reason));
+      return;
+    }
+
+    const removeAbortListener = addAbortListener(signal, error => {
+      waitQueueMember[kCancelled] = true;
+      if (waitQueueMember.timer) {
+        clearTimeout(waitQueueMember.timer);
+        waitQueueMember.timer = undefined;
+      }
+
+      this.emit(
+        ConnectionPool.CONNECTION_CHECK_OUT_FAILED,
+        new ConnectionCheckOutFailedEvent(this, 'aborted')
+      );
+      waitQueueMember.callback(error);
+    });
+
+    const waitQueueMember: WaitQueueMember = {
+      callback: (error, connection) => {
+        removeAbortListener();
+        callback(error, connection);
+      },
+      started: now()
+    };
+    const timeoutContext = options?.timeoutContext;
+    const waitQueueTimeoutMS = timeoutContext
+      ? timeoutContext.limit(this.options.waitQueueTimeoutMS)
+      : this.options.waitQueueTimeoutMS;
     if (waitQueueTimeoutMS) {
       waitQueueMember.timer = setTimeout(() => {
         waitQueueMember[kCancelled] = true;
@@ -310,17 +458,18 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
           new ConnectionCheckOutFailedEvent(this, 'timeout')
         );
         waitQueueMember.callback(
-          new WaitQueueTimeoutError(
-            this.loadBalanced
-              ? this.waitQueueErrorMetrics()
-              : 'Timed out while checking out a connection from connection pool',
-            this.address
-          )
+          timeoutContext?.expired
+            ? timeoutContext.error('connection checkout')
+            : new WaitQueueTimeoutError(
+                this.loadBalanced
+                  ? this.waitQueueErrorMetrics()
+                  : 'Timed out while checking out a connection from connection pool',
+                this.address
+              )
         );
       }, waitQueueTimeoutMS);
     }
 
-    this[kCheckedOut] = this[kCheckedOut] + 1;
     this[kWaitQueue].push(waitQueueMember);
     nextTick(processWaitQueue, this);
   }
@@ -356,8 +505,15 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
    *
    * Pool reset is handled by incrementing the pool's generation count. Any existing connection of a
    * previous generation will eventually be pruned during subsequent checkouts.
+   *
+   * Outside of load balancer mode the pool is also paused: pending and future checkouts fail
+   * fast with a `PoolClearedError` until the pool is marked {@link ConnectionPool.ready}.
    */
   clear(serviceId?: ObjectId): void {
+    if (this.closed) {
+      return;
+    }
+
     if (this.loadBalanced && serviceId) {
       const sid = serviceId.toHexString();
       const generation = this.serviceGenerations.get(sid);
@@ -372,11 +528,56 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
       }
     } else {
       this[kGeneration] += 1;
+
+      const alreadyPaused = this[kPoolState] === PoolState.paused;
+      this[kPoolState] = PoolState.paused;
+      clearMinPoolSizeTimer(this);
+      if (alreadyPaused) {
+        return;
+      }
+
+      this.emit('connectionPoolCleared', new ConnectionPoolClearedEvent(this));
+      // fail everything already waiting for a connection
+      nextTick(processWaitQueue, this);
+      return;
     }
 
     this.emit('connectionPoolCleared', new ConnectionPoolClearedEvent(this, serviceId));
   }
 
+  /**
+   * Retire every existing connection without pausing the pool, e.g. after credentials have been
+   * rotated. Like {@link ConnectionPool.clear} this increments the generation, so idle connections
+   * are closed once found during checkout and checked out ones once checked back in, while the
+   * connections replacing them consult the `credentialProvider` again.
+   */
+  rollConnections(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this[kGeneration] += 1;
+    for (const [sid, generation] of this.serviceGenerations) {
+      this.serviceGenerations.set(sid, generation + 1);
+    }
+
+    nextTick(processWaitQueue, this);
+  }
+
+  /**
+   * Mark a paused pool as ready, allowing connections to be checked out and created again.
+   * Called once monitoring has found the server to be healthy.
+   */
+  ready(): void {
+    if (this[kPoolState] !== PoolState.paused) {
+      return;
+    }
+
+    this[kPoolState] = PoolState.ready;
+    this.emit(ConnectionPool.CONNECTION_POOL_READY, new ConnectionPoolReadyEvent(this));
+    ensureMinPoolSize(this);
+  }
+
   /** Close the pool */
   close(callback: Callback<void>): void;
   close(options: CloseOptions, callback: Callback<void>): void;
@@ -409,11 +610,7 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
       }
     }
 
-    // clear the min pool size timer
-    const minPoolSizeTimer = this[kMinPoolSizeTimer];
-    if (minPoolSizeTimer) {
-      clearTimeout(minPoolSizeTimer);
-    }
+    clearMinPoolSizeTimer(this);
 
     // end the connection counter
     if (typeof this[kConnectionCounter].return === 'function') {
@@ -422,6 +619,7 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
 
     // mark the pool as closed immediately
     this.closed = true;
+    this[kPoolState] = PoolState.closed;
     eachAsync<Connection>(
       this[kConnections].toArray(),
       (conn, cb) => {
@@ -452,11 +650,13 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
    * @param conn - A pinned connection for use in load balancing mode.
    * @param fn - A function which operates on a managed connection
    * @param callback - The original callback
+   * @param options - Options for checking out a new connection
    */
   withConnection(
     conn: Connection | undefined,
     fn: WithConnectionCallback,
-    callback?: Callback<Connection>
+    callback?: Callback<Connection>,
+    options?: CheckOutOptions
   ): void {
     if (conn) {
       // use the provided connection, and do _not_ check it in after execution
@@ -488,23 +688,36 @@ export class ConnectionPool extends TypedEventEmitter<ConnectionPoolEvents> {
           this.checkIn(conn);
         }
       });
-    });
+    }, options);
   }
 }
 
 function ensureMinPoolSize(pool: ConnectionPool) {
-  if (pool.closed || pool.options.minPoolSize === 0) {
+  if (pool[kPoolState] !== PoolState.ready || pool.options.minPoolSize === 0) {
     return;
   }
 
-  const minPoolSize = pool.options.minPoolSize;
-  for (let i = pool.totalConnectionCount; i < minPoolSize; ++i) {
+  const { minPoolSize, maxConnecting } = pool.options;
+  for (
+    let i = pool.totalConnectionCount;
+    i < minPoolSize && pool.pendingConnectionCount < maxConnecting;
+    ++i
+  ) {
     createConnection(pool);
   }
 
+  clearMinPoolSizeTimer(pool);
   pool[kMinPoolSizeTimer] = setTimeout(() => ensureMinPoolSize(pool), 10);
 }
 
+function clearMinPoolSizeTimer(pool: ConnectionPool) {
+  const minPoolSizeTimer = pool[kMinPoolSizeTimer];
+  if (minPoolSizeTimer) {
+    clearTimeout(minPoolSizeTimer);
+    pool[kMinPoolSizeTimer] = undefined;
+  }
+}
+
 function connectionIsStale(pool: ConnectionPool, connection: Connection) {
   const serviceId = connection.serviceId;
   if (pool.loadBalanced && serviceId) {
@@ -529,7 +742,13 @@ function createConnection(pool: ConnectionPool, callback?: Callback<Connection>)
   };
 
   pool[kPermits]--;
-  connect(connectOptions, (err, connection) => {
+  pool[kPending]++;
+  const started = now();
+  connectWithProvidedCredentials(pool, connectOptions, (err, connection) => {
+    pool[kPending]--;
+    // a slot for establishing connections just freed up
+    nextTick(processWaitQueue, pool);
+
     if (err || !connection) {
       pool[kPermits]++;
       pool[kLogger].debug(`connection attempt failed with error [${JSON.stringify(err)}]`);
@@ -543,6 +762,10 @@ function createConnection(pool: ConnectionPool, callback?: Callback<Connection>)
     // The pool might have closed since we started trying to create a connection
     if (pool.closed) {
       connection.destroy({ force: true });
+      if (typeof callback === 'function') {
+        callback(new PoolClosedError(pool));
+      }
+
       return;
     }
 
@@ -571,6 +794,7 @@ function createConnection(pool: ConnectionPool, callback?: Callback<Connection>)
     }
 
     connection.markAvailable();
+    pool[kMetrics].connectionCreationLatency.record(calculateDurationInMs(started));
     pool.emit(ConnectionPool.CONNECTION_READY, new ConnectionReadyEvent(pool, connection));
 
     // if a callback has been provided, check out the connection immediately
@@ -585,6 +809,76 @@ function createConnection(pool: ConnectionPool, callback?: Callback<Connection>)
   });
 }
 
+/** Connects with the credentials of the `credentialProvider`, if there is one */
+function connectWithProvidedCredentials(
+  pool: ConnectionPool,
+  connectOptions: ConnectionOptions,
+  callback: Callback<Connection>
+) {
+  const credentialProvider = pool.options.credentialProvider;
+  if (!credentialProvider) {
+    return connect(connectOptions, callback);
+  }
+
+  // connections opened at the same time share a single call to the provider
+  let pending = pool[kPendingCredentials];
+  if (!pending) {
+    pending = Promise.resolve()
+      .then(credentialProvider)
+      .then(provided => makeProvidedConnectOptions(pool, provided))
+      .finally(() => {
+        pool[kPendingCredentials] = undefined;
+      });
+    pool[kPendingCredentials] = pending;
+  }
+
+  pending.then(
+    options => connect({ ...connectOptions, ...options }, callback),
+    error => callback(error)
+  );
+}
+
+function makeProvidedConnectOptions(
+  pool: ConnectionPool,
+  provided: ProvidedCredentials
+): ProvidedConnectOptions['options'] {
+  if (provided == null || typeof provided !== 'object') {
+    throw new MongoInvalidArgumentError('credentialProvider must resolve to an object');
+  }
+
+  const previous = pool[kProvidedCredentials];
+  if (
+    previous &&
+    previous.provided.username === provided.username &&
+    previous.provided.password === provided.password &&
+    previous.provided.cert === provided.cert &&
+    previous.provided.key === provided.key
+  ) {
+    return previous.options;
+  }
+
+  const options: ProvidedConnectOptions['options'] = {};
+  if (provided.username != null || provided.password != null) {
+    const credentials = MongoCredentials.merge(pool.options.credentials, {
+      username: provided.username,
+      password: provided.password
+    });
+    credentials.validate();
+    options.credentials = credentials;
+  }
+
+  if (provided.cert != null) {
+    options.cert = provided.cert;
+  }
+
+  if (provided.key != null) {
+    options.key = provided.key;
+  }
+
+  pool[kProvidedCredentials] = { provided: { ...provided }, options };
+  return options;
+}
+
 function destroyConnection(pool: ConnectionPool, connection: Connection, reason: string) {
   pool.emit(ConnectionPool.CONNECTION_CLOSED, new ConnectionClosedEvent(pool, connection, reason));
 
@@ -613,6 +907,20 @@ function processWaitQueue(pool: ConnectionPool) {
       continue;
     }
 
+    if (pool[kPoolState] === PoolState.paused) {
+      pool.emit(
+        ConnectionPool.CONNECTION_CHECK_OUT_FAILED,
+        new ConnectionCheckOutFailedEvent(pool, 'connectionError')
+      );
+      if (waitQueueMember.timer) {
+        clearTimeout(waitQueueMember.timer);
+      }
+
+      pool[kWaitQueue].shift();
+      waitQueueMember.callback(new PoolClearedError(pool));
+      continue;
+    }
+
     if (!pool.availableConnectionCount) {
       break;
     }
@@ -625,6 +933,8 @@ function processWaitQueue(pool: ConnectionPool) {
     const isStale = connectionIsStale(pool, connection);
     const isIdle = connectionIsIdle(pool, connection);
     if (!isStale && !isIdle && !connection.closed) {
+      pool[kCheckedOut] = pool[kCheckedOut] + 1;
+      pool[kMetrics].checkOutLatency.record(calculateDurationInMs(waitQueueMember.started));
       pool.emit(
         ConnectionPool.CONNECTION_CHECKED_OUT,
         new ConnectionCheckedOutEvent(pool, connection)
@@ -641,16 +951,24 @@ function processWaitQueue(pool: ConnectionPool) {
     }
   }
 
-  const maxPoolSize = pool.options.maxPoolSize;
-  if (pool.waitQueueSize && (maxPoolSize <= 0 || pool.totalConnectionCount < maxPoolSize)) {
+  // open connections for whoever is still waiting, at most `maxConnecting` at a time
+  const { maxPoolSize, maxConnecting } = pool.options;
+  while (
+    pool.waitQueueSize > 0 &&
+    pool.pendingConnectionCount < maxConnecting &&
+    (maxPoolSize <= 0 || pool.totalConnectionCount < maxPoolSize)
+  ) {
+    const waitQueueMember = pool[kWaitQueue].shift();
+    if (!waitQueueMember || waitQueueMember[kCancelled]) {
+      continue;
+    }
+
     createConnection(pool, (err, connection) => {
-      const waitQueueMember = pool[kWaitQueue].shift();
-      if (!waitQueueMember || waitQueueMember[kCancelled]) {
+      if (waitQueueMember[kCancelled]) {
         if (!err && connection) {
           pool[kConnections].push(connection);
         }
 
-        pool[kProcessingWaitQueue] = false;
         return;
       }
 
@@ -660,6 +978,8 @@ function processWaitQueue(pool: ConnectionPool) {
           new ConnectionCheckOutFailedEvent(pool, err)
         );
       } else if (connection) {
+        pool[kCheckedOut] = pool[kCheckedOut] + 1;
+        pool[kMetrics].checkOutLatency.record(calculateDurationInMs(waitQueueMember.started));
         pool.emit(
           ConnectionPool.CONNECTION_CHECKED_OUT,
           new ConnectionCheckedOutEvent(pool, connection)
@@ -670,12 +990,10 @@ function processWaitQueue(pool: ConnectionPool) {
         clearTimeout(waitQueueMember.timer);
       }
       waitQueueMember.callback(err, connection);
-      pool[kProcessingWaitQueue] = false;
-      nextTick(() => processWaitQueue(pool));
     });
-  } else {
-    pool[kProcessingWaitQueue] = false;
   }
+
+  pool[kProcessingWaitQueue] = false;
 }
 
 /**
@@ -1,4 +1,4 @@
-import { MongoDriverError } from '../error.ts';
+import { MongoDriverError, MongoErrorLabel, MongoNetworkError } from '../error.ts';
 import type { ConnectionPool } from './connection_pool.ts';
 
 /**
@@ -19,6 +19,27 @@ export class PoolClosedError extends MongoDriverError {
   }
 }
 
+/**
+ * An error indicating a connection pool is paused after being cleared, and fails checkouts
+ * until the server is known to be healthy again
+ * @category Error
+ */
+export class PoolClearedError extends MongoNetworkError {
+  /** The address of the connection pool */
+  address: string;
+
+  constructor(pool: ConnectionPool) {
+    super(`Connection pool for ${pool.address} was cleared because another operation failed`);
+    this.address = pool.address;
+    // nothing was sent to the server, so the operation can always be retried
+    this.addErrorLabel(MongoErrorLabel.RetryableWriteError);
+  }
+
+  override get name(): string {
+    return 'MongoPoolClearedError';
+  }
+}
+
 /**
  * An error thrown when a request to check out a connection times out
  * @category Error
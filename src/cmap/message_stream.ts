@@ -1,7 +1,6 @@
-import { Duplex, DuplexOptions } from 'stream';
-
 import type { BSONSerializeOptions, Document } from '../bson.ts';
 import { MongoDecompressionError, MongoParseError } from '../error.ts';
+import { TypedEventEmitter } from '../mongo_types.ts';
 import type { ClientSession } from '../sessions.ts';
 import { BufferPool, Callback } from '../utils.ts';
 import { BinMsg, MessageHeader, Msg, Query, Response, WriteProtocolMessageType } from './commands.ts';
@@ -21,12 +20,23 @@ const COMPRESSION_DETAILS_SIZE = 9; // originalOpcode + uncompressedSize, compre
 const kDefaultMaxBsonMessageSize = 1024 * 1024 * 16 * 4;
 /** @internal */
 const kBuffer = Symbol('buffer');
+/** @internal */
+const kProcessing = Symbol('processing');
 
 /** @internal */
-export interface MessageStreamOptions extends DuplexOptions {
+export interface MessageStreamOptions {
   maxBsonMessageSize?: number;
 }
 
+/** @internal */
+export type MessageStreamEvents = {
+  /** A complete (and decompressed) wire protocol message was received */
+  message(message: BinMsg | Response): void;
+  /** Serialized wire protocol bytes that must be written to the socket */
+  data(chunk: Buffer): void;
+  error(error: Error): void;
+};
+
 /** @internal */
 export interface OperationDescription extends BSONSerializeOptions {
   started: number;
@@ -41,35 +51,51 @@ export interface OperationDescription extends BSONSerializeOptions {
   socketTimeoutOverride?: boolean;
   agreedCompressor?: CompressorName;
   zlibCompressionLevel?: number;
+  zstdCompressionLevel?: number;
   $clusterTime?: Document;
 }
 
 /**
- * A duplex stream that is capable of reading and writing raw wire protocol messages, with
- * support for optional compression
+ * An event emitter that is capable of reading and writing raw wire protocol messages, with
+ * support for optional compression.
+ *
+ * Bytes received from the socket are passed to `write`, and parsed messages are emitted
+ * as `message` events. Outgoing commands passed to `writeCommand` are emitted as `data`
+ * events carrying the bytes to send.
  * @internal
  */
-export class MessageStream extends Duplex {
+export class MessageStream extends TypedEventEmitter<MessageStreamEvents> {
   /** @internal */
   maxBsonMessageSize: number;
   /** @internal */
   [kBuffer]: BufferPool;
+  /** @internal */
+  [kProcessing]: boolean;
 
   constructor(options: MessageStreamOptions = {}) {
-    super(options);
+    super();
     this.maxBsonMessageSize = options.maxBsonMessageSize || kDefaultMaxBsonMessageSize;
     this[kBuffer] = new BufferPool();
+    this[kProcessing] = false;
   }
 
-  override _write(chunk: Buffer, _: unknown, callback: Callback<Buffer>): void {
+  /** Buffers bytes received from the socket, emitting every message they complete */
+  write(chunk: Buffer): void {
     this[kBuffer].append(chunk);
-    processIncomingData(this, callback);
-  }
 
-  override _read(/* size */): void {
-    // NOTE: This implementation is empty because we explicitly push data to be read
-    //       when `writeMessage` is called.
-    return;
+    // decompression is asynchronous, so a pass over the buffer may still be in flight.
+    // That pass drains everything appended in the meantime before finishing.
+    if (this[kProcessing]) {
+      return;
+    }
+
+    this[kProcessing] = true;
+    processIncomingData(this, err => {
+      this[kProcessing] = false;
+      if (err) {
+        this.emit('error', err);
+      }
+    });
   }
 
   writeCommand(
@@ -83,7 +109,7 @@ export class MessageStream extends Duplex {
         : 'none';
     if (compressorName === 'none' || !canCompress(command)) {
       const data = command.toBin();
-      this.push(Array.isArray(data) ? Buffer.concat(data) : data);
+      this.emit('data', Array.isArray(data) ? Buffer.concat(data) : data);
       return;
     }
     // otherwise, compress the message
@@ -115,7 +141,7 @@ export class MessageStream extends Duplex {
       compressionDetails.writeInt32LE(originalCommandOpCode, 0); // originalOpcode
       compressionDetails.writeInt32LE(messageToBeCompressed.length, 4); // Size of the uncompressed compressedMessage, excluding the MsgHeader
       compressionDetails.writeUInt8(Compressor[compressorName], 8); // compressorID
-      this.push(Buffer.concat([msgHeader, compressionDetails, compressedMessage]));
+      this.emit('data', Buffer.concat([msgHeader, compressionDetails, compressedMessage]));
     });
   }
 }
@@ -1,3 +1,90 @@
+/** Inclusive upper bounds, in milliseconds, of the buckets latencies are counted in */
+const LATENCY_BUCKET_BOUNDS_MS = Object.freeze([
+  1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000
+]);
+
+/** @public */
+export interface LatencyHistogram {
+  /** Inclusive upper bound of each bucket, in milliseconds */
+  bucketBoundsMS: number[];
+  /**
+   * The number of samples in each bucket. It has one entry more than `bucketBoundsMS`,
+   * counting the samples above the last bound.
+   */
+  bucketCounts: number[];
+  /** The total number of samples */
+  count: number;
+  /** The sum of all samples, in milliseconds */
+  sumMS: number;
+  /** The largest sample, in milliseconds */
+  maxMS: number;
+}
+
+/** @public */
+export interface ConnectionPoolStatistics {
+  /** The address (host/port pair) of the pool */
+  address: string;
+  /** `paused` while the pool fails checkouts after being cleared, `ready` or `closed` */
+  state: 'paused' | 'ready' | 'closed';
+  /** The configured `maxPoolSize` */
+  maxPoolSize: number;
+  /** Connections associated with the pool, whether available, checked out or being established */
+  totalConnectionCount: number;
+  /** Idle connections waiting in the pool */
+  availableConnectionCount: number;
+  /** Connections currently checked out by operations */
+  checkedOutConnectionCount: number;
+  /** Connections currently being established */
+  pendingConnectionCount: number;
+  /** Checkout requests waiting for a connection */
+  waitQueueSize: number;
+  /** Connections pinned to transactions, cursors and other operations (load balancer mode only) */
+  pinnedConnectionCount: { transaction: number; cursor: number; other: number };
+  /** Time taken to establish a connection, handshake and authentication included */
+  connectionCreationLatency: LatencyHistogram;
+  /** Time from requesting a connection to successfully checking it out */
+  checkOutLatency: LatencyHistogram;
+}
+
+/**
+ * Counts latency samples in fixed buckets.
+ * @internal
+ */
+export class LatencyRecorder {
+  bucketCounts: number[] = new Array(LATENCY_BUCKET_BOUNDS_MS.length + 1).fill(0);
+  count = 0;
+  sumMS = 0;
+  maxMS = 0;
+
+  /**
+   * Record a sample, in milliseconds.
+   */
+  record(durationMS: number): void {
+    let bucket = LATENCY_BUCKET_BOUNDS_MS.findIndex(bound => durationMS <= bound);
+    if (bucket === -1) {
+      bucket = LATENCY_BUCKET_BOUNDS_MS.length;
+    }
+
+    this.bucketCounts[bucket] += 1;
+    this.count += 1;
+    this.sumMS += durationMS;
+    this.maxMS = Math.max(this.maxMS, durationMS);
+  }
+
+  /**
+   * Return a copy of the current counts.
+   */
+  snapshot(): LatencyHistogram {
+    return {
+      bucketBoundsMS: [...LATENCY_BUCKET_BOUNDS_MS],
+      bucketCounts: [...this.bucketCounts],
+      count: this.count,
+      sumMS: this.sumMS,
+      maxMS: this.maxMS
+    };
+  }
+}
+
 /** @internal */
 export class ConnectionPoolMetrics {
   static readonly TXN = 'txn' as const;
@@ -7,6 +94,8 @@ export class ConnectionPoolMetrics {
   txnConnections = 0;
   cursorConnections = 0;
   otherConnections = 0;
+  connectionCreationLatency = new LatencyRecorder();
+  checkOutLatency = new LatencyRecorder();
 
   /**
    * Mark a connection as pinned for a specific operation.
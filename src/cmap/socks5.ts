@@ -0,0 +1,209 @@
+import { MongoInvalidArgumentError, MongoNetworkError } from '../error.ts';
+import { readExactly, writeAll } from './transport.ts';
+
+const SOCKS_VERSION = 0x05;
+const USERNAME_PASSWORD_VERSION = 0x01;
+
+const AuthMethod = Object.freeze({
+  noAuth: 0x00,
+  usernamePassword: 0x02,
+  noAcceptable: 0xff
+} as const);
+
+const AddressType = Object.freeze({
+  ipv4: 0x01,
+  domainName: 0x03,
+  ipv6: 0x04
+} as const);
+
+const CONNECT_COMMAND = 0x01;
+
+/** Human readable descriptions of the RFC 1928 reply codes */
+const REPLY_MESSAGES: Record<number, string> = {
+  0x01: 'general SOCKS server failure',
+  0x02: 'connection not allowed by ruleset',
+  0x03: 'network unreachable',
+  0x04: 'host unreachable',
+  0x05: 'connection refused',
+  0x06: 'TTL expired',
+  0x07: 'command not supported',
+  0x08: 'address type not supported'
+};
+
+const IPV4_REGEX = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+/** @internal */
+export interface Socks5ConnectOptions {
+  /** Host name or IP address the proxy should connect to */
+  host: string;
+  port: number;
+  /** When both are set, username/password authentication (RFC 1929) is offered to the proxy */
+  username?: string;
+  password?: string;
+}
+
+/**
+ * Performs a SOCKS5 (RFC 1928) `CONNECT` handshake over `conn`, an open connection to the
+ * proxy. Once the returned promise resolves, `conn` is a tunnel to the requested destination.
+ *
+ * Supports the "no authentication" and username/password methods, and domain name, IPv4
+ * and IPv6 destinations.
+ * @internal
+ */
+export async function socks5Connect(conn: Deno.Conn, options: Socks5ConnectOptions): Promise<void> {
+  const useCredentials = options.username != null && options.password != null;
+
+  const methods: number[] = [AuthMethod.noAuth];
+  if (useCredentials) {
+    methods.push(AuthMethod.usernamePassword);
+  }
+
+  await writeAll(conn, Uint8Array.from([SOCKS_VERSION, methods.length, ...methods]));
+  const [version, method] = await readExactly(conn, 2);
+  if (version !== SOCKS_VERSION) {
+    throw new MongoNetworkError(`SOCKS5 proxy responded with unexpected version ${version}`);
+  }
+
+  if (method === AuthMethod.usernamePassword && useCredentials) {
+    await authenticate(conn, options.username as string, options.password as string);
+  } else if (method !== AuthMethod.noAuth) {
+    throw new MongoNetworkError(
+      method === AuthMethod.noAcceptable
+        ? 'SOCKS5 proxy did not accept any of the offered authentication methods'
+        : `SOCKS5 proxy selected unsupported authentication method ${method}`
+    );
+  }
+
+  const port = options.port;
+  await writeAll(
+    conn,
+    Uint8Array.from([
+      SOCKS_VERSION,
+      CONNECT_COMMAND,
+      0x00, // reserved
+      ...encodeAddress(options.host),
+      (port >> 8) & 0xff,
+      port & 0xff
+    ])
+  );
+
+  const [replyVersion, reply, , addressType] = await readExactly(conn, 4);
+  if (replyVersion !== SOCKS_VERSION) {
+    throw new MongoNetworkError(`SOCKS5 proxy responded with unexpected version ${replyVersion}`);
+  }
+
+  if (reply !== 0x00) {
+    const description = REPLY_MESSAGES[reply] ?? `unknown reply code ${reply}`;
+    throw new MongoNetworkError(
+      `SOCKS5 proxy failed to connect to ${options.host}:${options.port}: ${description}`
+    );
+  }
+
+  // Drain the bound address and port, they are of no use to us
+  let boundAddressLength: number;
+  switch (addressType) {
+    case AddressType.ipv4:
+      boundAddressLength = 4;
+      break;
+    case AddressType.ipv6:
+      boundAddressLength = 16;
+      break;
+    case AddressType.domainName:
+      boundAddressLength = (await readExactly(conn, 1))[0];
+      break;
+    default:
+      throw new MongoNetworkError(`SOCKS5 proxy replied with unknown address type ${addressType}`);
+  }
+
+  await readExactly(conn, boundAddressLength + 2);
+}
+
+/** Runs the username/password sub-negotiation described in RFC 1929 */
+async function authenticate(conn: Deno.Conn, username: string, password: string): Promise<void> {
+  const encoder = new TextEncoder();
+  const usernameBytes = encoder.encode(username);
+  const passwordBytes = encoder.encode(password);
+  if (usernameBytes.length > 255 || passwordBytes.length > 255) {
+    throw new MongoInvalidArgumentError(
+      'SOCKS5 proxy username and password must each be at most 255 bytes'
+    );
+  }
+
+  await writeAll(
+    conn,
+    Uint8Array.from([
+      USERNAME_PASSWORD_VERSION,
+      usernameBytes.length,
+      ...usernameBytes,
+      passwordBytes.length,
+      ...passwordBytes
+    ])
+  );
+
+  const [, status] = await readExactly(conn, 2);
+  if (status !== 0x00) {
+    throw new MongoNetworkError('SOCKS5 proxy rejected the provided username and password');
+  }
+}
+
+/** Encodes a destination as an address type byte followed by the address itself */
+function encodeAddress(host: string): number[] {
+  const ipv4 = IPV4_REGEX.exec(host);
+  if (ipv4 && ipv4.slice(1).every(octet => Number(octet) <= 255)) {
+    return [AddressType.ipv4, ...ipv4.slice(1).map(Number)];
+  }
+
+  if (host.includes(':')) {
+    return [AddressType.ipv6, ...parseIPv6(host)];
+  }
+
+  const hostBytes = new TextEncoder().encode(host);
+  if (hostBytes.length > 255) {
+    throw new MongoInvalidArgumentError(`Host name '${host}' is too long for a SOCKS5 request`);
+  }
+
+  return [AddressType.domainName, hostBytes.length, ...hostBytes];
+}
+
+/** Converts a textual IPv6 address (optionally with an embedded IPv4 suffix) into 16 bytes */
+function parseIPv6(address: string): number[] {
+  const invalid = () => new MongoInvalidArgumentError(`Invalid IPv6 address '${address}'`);
+
+  let text = address.replace(/^\[|\]$/g, '');
+  const zoneIndex = text.indexOf('%');
+  if (zoneIndex !== -1) {
+    text = text.slice(0, zoneIndex);
+  }
+
+  const toGroups = (part: string): number[] => {
+    if (part === '') return [];
+    const groups: number[] = [];
+    for (const piece of part.split(':')) {
+      const ipv4 = IPV4_REGEX.exec(piece);
+      if (ipv4) {
+        const [a, b, c, d] = ipv4.slice(1).map(Number);
+        groups.push((a << 8) | b, (c << 8) | d);
+      } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(Number.parseInt(piece, 16));
+      } else {
+        throw invalid();
+      }
+    }
+    return groups;
+  };
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    throw invalid();
+  }
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    throw invalid();
+  }
+
+  const groups = [...head, ...new Array(missing).fill(0), ...tail];
+  return groups.flatMap(group => [(group >> 8) & 0xff, group & 0xff]);
+}
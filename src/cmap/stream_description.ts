@@ -15,6 +15,8 @@ const RESPONSE_FIELDS = [
 /** @public */
 export interface StreamDescriptionOptions {
   compressors?: CompressorName[];
+  zlibCompressionLevel?: number;
+  zstdCompressionLevel?: number;
   logicalSessionTimeoutMinutes?: number;
   loadBalanced: boolean;
 }
@@ -36,6 +38,7 @@ export class StreamDescription {
   __nodejs_mock_server__?: boolean;
 
   zlibCompressionLevel?: number;
+  zstdCompressionLevel?: number;
 
   constructor(address: string, options?: StreamDescriptionOptions) {
     this.address = address;
@@ -51,6 +54,8 @@ export class StreamDescription {
       options && options.compressors && Array.isArray(options.compressors)
         ? options.compressors
         : [];
+    this.zlibCompressionLevel = options?.zlibCompressionLevel;
+    this.zstdCompressionLevel = options?.zstdCompressionLevel;
   }
 
   receiveResponse(response: Document | null): void {
@@ -0,0 +1,226 @@
+import { Buffer } from 'buffer';
+import { nextTick } from 'next-tick';
+
+import { MongoNetworkError } from '../error.ts';
+import { TypedEventEmitter } from '../mongo_types.ts';
+
+/** Size of the scratch buffer each socket reads into */
+const kReadBufferSize = 64 * 1024;
+
+/** @internal */
+const kConn = Symbol('conn');
+/** @internal */
+const kTimeoutMS = Symbol('timeoutMS');
+/** @internal */
+const kTimeoutId = Symbol('timeoutId');
+/** @internal */
+const kWriteQueue = Symbol('writeQueue');
+
+/** @public */
+export type DenoSocketEvents = {
+  data(chunk: Buffer): void;
+  timeout(): void;
+  error(error: Error): void;
+  close(): void;
+};
+
+/**
+ * The parts of `Deno.TcpConn` that only exist on TCP (and, in newer Deno
+ * releases, TLS) connections.
+ * @internal
+ */
+interface TunableConn {
+  setNoDelay?(noDelay?: boolean): void;
+  setKeepAlive?(keepAlive?: boolean): void;
+}
+
+/**
+ * A socket built directly on a native `Deno.Conn`.
+ *
+ * It exposes the small subset of the Node.js socket surface that `Connection` relies on:
+ * ordered writes, an inactivity timeout, and `data`/`timeout`/`error`/`close` events.
+ * Reading starts as soon as the socket is constructed.
+ * @internal
+ */
+export class DenoSocket extends TypedEventEmitter<DenoSocketEvents> {
+  remoteAddress?: string;
+  remotePort?: number;
+  destroyed: boolean;
+
+  /** @internal */
+  [kConn]: Deno.Conn;
+  /** @internal */
+  [kTimeoutMS]: number;
+  /** @internal */
+  [kTimeoutId]: number | null;
+  /** @internal */
+  [kWriteQueue]: Promise<void>;
+
+  constructor(conn: Deno.Conn) {
+    super();
+    this[kConn] = conn;
+    this[kTimeoutMS] = 0;
+    this[kTimeoutId] = null;
+    this[kWriteQueue] = Promise.resolve();
+    this.destroyed = false;
+
+    const remoteAddr = conn.remoteAddr;
+    if (remoteAddr.transport === 'tcp') {
+      this.remoteAddress = remoteAddr.hostname;
+      this.remotePort = remoteAddr.port;
+    }
+
+    this.readLoop();
+  }
+
+  /** The underlying native connection */
+  get conn(): Deno.Conn {
+    return this[kConn];
+  }
+
+  /**
+   * Enables or disables TCP keep-alive probes.
+   *
+   * Deno does not expose the keep-alive initial delay, so only the toggle is honored.
+   */
+  setKeepAlive(keepAlive: boolean): void {
+    const conn = this[kConn] as Deno.Conn & TunableConn;
+    if (typeof conn.setKeepAlive === 'function') {
+      conn.setKeepAlive(keepAlive);
+    }
+  }
+
+  /** Enables or disables Nagle's algorithm */
+  setNoDelay(noDelay: boolean): void {
+    const conn = this[kConn] as Deno.Conn & TunableConn;
+    if (typeof conn.setNoDelay === 'function') {
+      conn.setNoDelay(noDelay);
+    }
+  }
+
+  /**
+   * Emits `timeout` after `timeoutMS` of inactivity in either direction. Like Node.js,
+   * the socket is not closed automatically; a value of `0` disables the timeout.
+   */
+  setTimeout(timeoutMS: number): void {
+    this[kTimeoutMS] = timeoutMS;
+    this.refreshTimeout();
+  }
+
+  /** Queues `chunk` for writing, preserving the order of consecutive calls */
+  write(chunk: Uint8Array): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    this.refreshTimeout();
+    this[kWriteQueue] = this[kWriteQueue]
+      .then(() => writeAll(this[kConn], chunk))
+      .then(
+        () => this.refreshTimeout(),
+        error => this.destroy(error)
+      );
+  }
+
+  /** Closes the socket once every queued write has been flushed */
+  end(callback?: () => void): void {
+    this[kWriteQueue].then(() => {
+      this.destroy();
+      if (typeof callback === 'function') {
+        callback();
+      }
+    });
+  }
+
+  /** Closes the socket immediately, emitting `error` (if provided) and then `close` */
+  destroy(error?: Error): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    this.destroyed = true;
+    this.clearTimeout();
+
+    try {
+      this[kConn].close();
+    } catch {
+      // the resource may already be closed by the peer
+    }
+
+    nextTick(() => {
+      if (error) {
+        this.emit('error', error);
+      }
+
+      this.emit('close');
+    });
+  }
+
+  /** @internal */
+  private async readLoop(): Promise<void> {
+    const scratch = new Uint8Array(kReadBufferSize);
+    try {
+      while (!this.destroyed) {
+        const bytesRead = await this[kConn].read(scratch);
+        if (bytesRead == null) {
+          break;
+        }
+
+        this.refreshTimeout();
+        // copy out of the scratch buffer, it is reused by the next read
+        this.emit('data', Buffer.from(scratch.subarray(0, bytesRead)));
+      }
+    } catch (error) {
+      if (!this.destroyed) {
+        this.destroy(new MongoNetworkError(error));
+        return;
+      }
+    }
+
+    this.destroy();
+  }
+
+  /** @internal */
+  private refreshTimeout(): void {
+    this.clearTimeout();
+    if (this.destroyed || this[kTimeoutMS] <= 0) {
+      return;
+    }
+
+    this[kTimeoutId] = setTimeout(() => {
+      this[kTimeoutId] = null;
+      this.emit('timeout');
+    }, this[kTimeoutMS]);
+  }
+
+  /** @internal */
+  private clearTimeout(): void {
+    const timeoutId = this[kTimeoutId];
+    if (timeoutId != null) {
+      clearTimeout(timeoutId);
+      this[kTimeoutId] = null;
+    }
+  }
+}
+
+/** Writes the whole of `chunk`, looping over partial writes */
+export async function writeAll(conn: Pick<Deno.Conn, 'write'>, chunk: Uint8Array): Promise<void> {
+  let written = 0;
+  while (written < chunk.byteLength) {
+    written += await conn.write(chunk.subarray(written));
+  }
+}
+
+/** Reads exactly `size` bytes, failing if the peer closes the connection first */
+export async function readExactly(conn: Pick<Deno.Conn, 'read'>, size: number): Promise<Uint8Array> {
+  const result = new Uint8Array(size);
+  let offset = 0;
+  while (offset < size) {
+    const bytesRead = await conn.read(result.subarray(offset));
+    if (bytesRead == null) {
+      throw new MongoNetworkError('connection closed');
+    }
+    offset += bytesRead;
+  }
+  return result;
+}
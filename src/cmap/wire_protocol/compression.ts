@@ -1,16 +1,20 @@
+import { Buffer } from 'buffer';
+import { nextTick } from 'next-tick';
 import * as zlib from 'zlib';
 
 import { LEGACY_HELLO_COMMAND } from '../../constants.ts';
-import { PKG_VERSION } from '../../deps.ts';
+import { loadZStandard, ZStandard, ZStandardLib } from '../../deps.ts';
 import { MongoDecompressionError, MongoInvalidArgumentError } from '../../error.ts';
 import type { Callback } from '../../utils.ts';
 import type { OperationDescription } from '../message_stream.ts';
+import * as Snappy from './snappy.ts';
 
 /** @public */
 export const Compressor = Object.freeze({
   none: 0,
   snappy: 1,
-  zlib: 2
+  zlib: 2,
+  zstd: 3
 } as const);
 
 /** @public */
@@ -40,20 +44,16 @@ export function compress(
 ): void {
   const zlibOptions = {} as zlib.ZlibOptions;
   switch (self.options.agreedCompressor) {
-    // case 'snappy': { // TODO(erfan)
-    //   if ('kModuleError' in Snappy) {
-    //     return callback(Snappy['kModuleError']);
-    //   }
-
-    //   if (Snappy[PKG_VERSION].major <= 6) {
-    //     Snappy.compress(dataToBeCompressed, callback);
-    //   } else {
-    //     Snappy.compress(dataToBeCompressed)
-    //       .then(buffer => callback(undefined, buffer))
-    //       .catch(error => callback(error));
-    //   }
-    //   break;
-    // }
+    case 'snappy': {
+      let compressed: Uint8Array;
+      try {
+        compressed = Snappy.compress(dataToBeCompressed);
+      } catch (error) {
+        return callback(error);
+      }
+      callback(undefined, toBuffer(compressed));
+      break;
+    }
     case 'zlib':
       // Determine zlibCompressionLevel
       if (self.options.zlibCompressionLevel) {
@@ -61,6 +61,13 @@ export function compress(
       }
       zlib.deflate(dataToBeCompressed, zlibOptions, callback as zlib.CompressCallback);
       break;
+    case 'zstd':
+      withZStandard(
+        // a level of 0 (the default) lets the library pick its own default level
+        zstd => zstd.compress(dataToBeCompressed, self.options.zstdCompressionLevel || undefined),
+        callback
+      );
+      break;
     default:
       throw new MongoInvalidArgumentError(
         `Unknown compressor ${self.options.agreedCompressor} failed to compress`
@@ -74,31 +81,58 @@ export function decompress(
   compressedData: Buffer,
   callback: Callback<Buffer>
 ): void {
-  if (compressorID < 0 || compressorID > Math.max(2)) {
+  if (compressorID < 0 || compressorID > Math.max(...Object.values(Compressor))) {
     throw new MongoDecompressionError(
       `Server sent message compressed using an unsupported compressor. (Received compressor ID ${compressorID})`
     );
   }
 
   switch (compressorID) {
-    // case Compressor.snappy: { // TODO(erfan)
-    //   if ('kModuleError' in Snappy) {
-    //     return callback(Snappy['kModuleError']);
-    //   }
-
-    //   if (Snappy[PKG_VERSION].major <= 6) {
-    //     Snappy.uncompress(compressedData, { asBuffer: true }, callback);
-    //   } else {
-    //     Snappy.uncompress(compressedData, { asBuffer: true })
-    //       .then(buffer => callback(undefined, buffer))
-    //       .catch(error => callback(error));
-    //   }
-    //   break;
-    // }
+    case Compressor.snappy: {
+      let uncompressed: Uint8Array;
+      try {
+        uncompressed = Snappy.uncompress(compressedData);
+      } catch (error) {
+        return callback(error);
+      }
+      callback(undefined, toBuffer(uncompressed));
+      break;
+    }
     case Compressor.zlib:
       zlib.inflate(compressedData, callback as zlib.CompressCallback);
       break;
+    case Compressor.zstd:
+      withZStandard(zstd => zstd.decompress(compressedData), callback);
+      break;
     default:
       callback(undefined, compressedData);
   }
 }
+
+/**
+ * Runs `fn` once the zstd module is loaded. A missing module, a rejection and a throw of `fn`
+ * all end up in `callback`, which is called exactly once and outside of the promise chain, like
+ * the zlib and snappy callbacks.
+ */
+function withZStandard(
+  fn: (zstd: ZStandardLib) => Promise<Buffer>,
+  callback: Callback<Buffer>
+): void {
+  loadZStandard()
+    .then(() => {
+      if ('kModuleError' in ZStandard) {
+        throw ZStandard['kModuleError'];
+      }
+
+      return fn(ZStandard);
+    })
+    .then(
+      buffer => nextTick(() => callback(undefined, buffer)),
+      error => nextTick(() => callback(error))
+    );
+}
+
+/** Wraps a `Uint8Array` in a `Buffer` without copying it */
+function toBuffer(array: Uint8Array): Buffer {
+  return Buffer.from(array.buffer, array.byteOffset, array.byteLength);
+}
@@ -1,7 +1,8 @@
 export const MIN_SUPPORTED_SERVER_VERSION = '3.6';
-export const MAX_SUPPORTED_SERVER_VERSION = '5.1';
+export const MAX_SUPPORTED_SERVER_VERSION = '8.0';
 export const MIN_SUPPORTED_WIRE_VERSION = 6;
-export const MAX_SUPPORTED_WIRE_VERSION = 14;
+// 5.0: 13, 6.0: 17, 7.0: 21, 8.0: 25
+export const MAX_SUPPORTED_WIRE_VERSION = 25;
 export const OP_REPLY = 1;
 export const OP_UPDATE = 2001;
 export const OP_INSERT = 2002;
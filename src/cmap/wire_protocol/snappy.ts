@@ -0,0 +1,282 @@
+import { MongoDecompressionError } from '../../error.ts';
+
+/**
+ * A pure TypeScript implementation of the snappy block format, as used by `OP_COMPRESSED`.
+ * See https://github.com/google/snappy/blob/main/format_description.txt
+ *
+ * The compressor follows the reference implementation: the input is split into 64KiB
+ * fragments and each fragment is scanned for 4 byte matches through a hash table,
+ * skipping ahead faster the longer no match has been found.
+ */
+
+const BLOCK_SIZE = 1 << 16;
+const MAX_HASH_TABLE_BITS = 14;
+/** Matches are not searched for in the last bytes of a fragment, they are emitted as a literal */
+const INPUT_MARGIN_BYTES = 15;
+
+const TAG_LITERAL = 0b00;
+const TAG_COPY_1 = 0b01;
+const TAG_COPY_2 = 0b10;
+
+/** The largest possible compressed size for an input of `length` bytes */
+function maxCompressedLength(length: number): number {
+  return 32 + length + Math.floor(length / 6);
+}
+
+function load32(array: Uint8Array, position: number): number {
+  return (
+    array[position] |
+    (array[position + 1] << 8) |
+    (array[position + 2] << 16) |
+    (array[position + 3] << 24)
+  );
+}
+
+function hash(value: number, shift: number): number {
+  return Math.imul(value, 0x1e35a7bd) >>> shift;
+}
+
+function emitLiteral(
+  input: Uint8Array,
+  start: number,
+  length: number,
+  output: Uint8Array,
+  outputPosition: number
+): number {
+  const n = length - 1;
+  if (n < 60) {
+    output[outputPosition++] = (n << 2) | TAG_LITERAL;
+  } else if (n < 1 << 8) {
+    output[outputPosition++] = (60 << 2) | TAG_LITERAL;
+    output[outputPosition++] = n;
+  } else {
+    // fragments are at most 64KiB, so two length bytes always suffice
+    output[outputPosition++] = (61 << 2) | TAG_LITERAL;
+    output[outputPosition++] = n & 0xff;
+    output[outputPosition++] = n >>> 8;
+  }
+
+  output.set(input.subarray(start, start + length), outputPosition);
+  return outputPosition + length;
+}
+
+/** Emits a single copy element, `length` must be between 4 and 64 */
+function emitCopyUpTo64(
+  output: Uint8Array,
+  outputPosition: number,
+  offset: number,
+  length: number
+): number {
+  if (length < 12 && offset < 2048) {
+    output[outputPosition++] = ((offset >>> 8) << 5) | ((length - 4) << 2) | TAG_COPY_1;
+    output[outputPosition++] = offset & 0xff;
+  } else {
+    output[outputPosition++] = ((length - 1) << 2) | TAG_COPY_2;
+    output[outputPosition++] = offset & 0xff;
+    output[outputPosition++] = offset >>> 8;
+  }
+  return outputPosition;
+}
+
+function emitCopy(output: Uint8Array, outputPosition: number, offset: number, length: number) {
+  // Keep the remainder at 4 bytes or more so the final copy can always be emitted
+  while (length >= 68) {
+    outputPosition = emitCopyUpTo64(output, outputPosition, offset, 64);
+    length -= 64;
+  }
+
+  if (length > 64) {
+    outputPosition = emitCopyUpTo64(output, outputPosition, offset, 60);
+    length -= 60;
+  }
+
+  return emitCopyUpTo64(output, outputPosition, offset, length);
+}
+
+function compressFragment(
+  input: Uint8Array,
+  start: number,
+  length: number,
+  output: Uint8Array,
+  outputPosition: number
+): number {
+  let hashTableBits = 1;
+  while (1 << hashTableBits <= length && hashTableBits <= MAX_HASH_TABLE_BITS) {
+    hashTableBits++;
+  }
+  hashTableBits--;
+  const shift = 32 - hashTableBits;
+  // offsets relative to `start`, a fragment never exceeds 64KiB
+  const table = new Uint16Array(1 << hashTableBits);
+
+  const end = start + length;
+  let nextEmit = start;
+
+  if (length >= INPUT_MARGIN_BYTES) {
+    const limit = end - INPUT_MARGIN_BYTES;
+    let position = start + 1;
+    let nextHash = hash(load32(input, position), shift);
+
+    search: for (;;) {
+      let skip = 32;
+      let nextPosition = position;
+      let candidate = 0;
+
+      // Look for a 4 byte match, checking less often the longer we go without one
+      do {
+        position = nextPosition;
+        const currentHash = nextHash;
+        nextPosition = position + (skip++ >>> 5);
+        if (nextPosition > limit) {
+          break search;
+        }
+
+        nextHash = hash(load32(input, nextPosition), shift);
+        candidate = start + table[currentHash];
+        table[currentHash] = position - start;
+      } while (load32(input, position) !== load32(input, candidate));
+
+      outputPosition = emitLiteral(input, nextEmit, position - nextEmit, output, outputPosition);
+
+      // Emit copies for as long as the data right after each match matches again
+      do {
+        const matchStart = position;
+        let matched = 4;
+        while (position + matched < end && input[position + matched] === input[candidate + matched]) {
+          matched++;
+        }
+
+        position += matched;
+        outputPosition = emitCopy(output, outputPosition, matchStart - candidate, matched);
+        nextEmit = position;
+        if (position >= limit) {
+          break search;
+        }
+
+        table[hash(load32(input, position - 1), shift)] = position - 1 - start;
+        const currentHash = hash(load32(input, position), shift);
+        candidate = start + table[currentHash];
+        table[currentHash] = position - start;
+      } while (load32(input, position) === load32(input, candidate));
+
+      nextHash = hash(load32(input, ++position), shift);
+    }
+  }
+
+  if (nextEmit < end) {
+    outputPosition = emitLiteral(input, nextEmit, end - nextEmit, output, outputPosition);
+  }
+
+  return outputPosition;
+}
+
+/** Compresses `input` into a single snappy block */
+export function compress(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(maxCompressedLength(input.length));
+
+  // preamble: the uncompressed length as a little-endian varint
+  let outputPosition = 0;
+  let remaining = input.length;
+  while (remaining >= 0x80) {
+    output[outputPosition++] = (remaining & 0x7f) | 0x80;
+    remaining >>>= 7;
+  }
+  output[outputPosition++] = remaining;
+
+  for (let position = 0; position < input.length; position += BLOCK_SIZE) {
+    const fragmentLength = Math.min(BLOCK_SIZE, input.length - position);
+    outputPosition = compressFragment(input, position, fragmentLength, output, outputPosition);
+  }
+
+  return output.subarray(0, outputPosition);
+}
+
+/**
+ * Decompresses a single snappy block.
+ * @throws MongoDecompressionError if the block is malformed
+ */
+export function uncompress(input: Uint8Array): Uint8Array {
+  const corrupt = (reason: string) =>
+    new MongoDecompressionError(`Invalid snappy compressed data: ${reason}`);
+
+  let position = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    if (position >= input.length || shift > 28) {
+      throw corrupt('bad length preamble');
+    }
+    const byte = input[position++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) break;
+  }
+
+  const output = new Uint8Array(length);
+  let outputPosition = 0;
+
+  while (position < input.length) {
+    const tag = input[position++];
+
+    if ((tag & 0b11) === TAG_LITERAL) {
+      let literalLength = tag >>> 2;
+      if (literalLength >= 60) {
+        const lengthBytes = literalLength - 59;
+        if (position + lengthBytes > input.length) {
+          throw corrupt('truncated literal length');
+        }
+        literalLength = 0;
+        for (let i = 0; i < lengthBytes; i++) {
+          literalLength += input[position + i] * 2 ** (8 * i);
+        }
+        position += lengthBytes;
+      }
+      literalLength += 1;
+
+      if (position + literalLength > input.length || outputPosition + literalLength > length) {
+        throw corrupt('literal exceeds buffer bounds');
+      }
+
+      output.set(input.subarray(position, position + literalLength), outputPosition);
+      position += literalLength;
+      outputPosition += literalLength;
+      continue;
+    }
+
+    let copyLength: number;
+    let offset: number;
+    switch (tag & 0b11) {
+      case TAG_COPY_1:
+        if (position + 1 > input.length) throw corrupt('truncated copy');
+        copyLength = ((tag >>> 2) & 0b111) + 4;
+        offset = ((tag >>> 5) << 8) | input[position];
+        position += 1;
+        break;
+      case TAG_COPY_2:
+        if (position + 2 > input.length) throw corrupt('truncated copy');
+        copyLength = (tag >>> 2) + 1;
+        offset = input[position] | (input[position + 1] << 8);
+        position += 2;
+        break;
+      default:
+        // copy with a 4 byte offset
+        if (position + 4 > input.length) throw corrupt('truncated copy');
+        copyLength = (tag >>> 2) + 1;
+        offset = load32(input, position) >>> 0;
+        position += 4;
+    }
+
+    if (offset === 0 || offset > outputPosition || outputPosition + copyLength > length) {
+      throw corrupt('copy exceeds buffer bounds');
+    }
+
+    // copies may overlap their own output (e.g. runs), so go byte by byte
+    for (let i = 0; i < copyLength; i++, outputPosition++) {
+      output[outputPosition] = output[outputPosition - offset];
+    }
+  }
+
+  if (outputPosition !== length) {
+    throw corrupt(`expected ${length} bytes, got ${outputPosition}`);
+  }
+
+  return output;
+}
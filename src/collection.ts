@@ -78,6 +78,15 @@ import {
 import type { Hint, OperationOptions } from './operations/operation.ts';
 import { OptionsOperation } from './operations/options_operation.ts';
 import { RenameOperation, RenameOptions } from './operations/rename.ts';
+import {
+  CreateSearchIndexesOperation,
+  DropSearchIndexOperation,
+  ListSearchIndexesOptions,
+  SearchIndexDefinition,
+  SearchIndexDescription,
+  UpdateSearchIndexOperation,
+  VectorSearchIndexDefinition
+} from './operations/search_indexes.ts';
 import { CollStats, CollStatsOperation, CollStatsOptions } from './operations/stats.ts';
 import {
   ReplaceOneOperation,
@@ -95,6 +104,7 @@ import {
   DEFAULT_PK_FACTORY,
   emitWarningOnce,
   getTopology,
+  maybePromise,
   MongoDBNamespace,
   normalizeHintField,
   resolveOptions
@@ -121,6 +131,8 @@ export interface CollectionOptions
   readConcern?: ReadConcernLike;
   /** The preferred read preference (ReadPreference.PRIMARY, ReadPreference.PRIMARY_PREFERRED, ReadPreference.SECONDARY, ReadPreference.SECONDARY_PREFERRED, ReadPreference.NEAREST). */
   readPreference?: ReadPreferenceLike;
+  /** The default `timeoutMS` of operations on this collection, inherited from the Db when not set */
+  timeoutMS?: number;
 }
 
 /** @internal */
@@ -134,6 +146,7 @@ export interface CollectionPrivate {
   collectionHint?: Hint;
   readConcern?: ReadConcern;
   writeConcern?: WriteConcern;
+  timeoutMS?: number;
 }
 
 /**
@@ -184,7 +197,8 @@ export class Collection<TSchema extends Document = Document> {
       readPreference: ReadPreference.fromOptions(options),
       bsonOptions: resolveBSONOptions(options, db),
       readConcern: ReadConcern.fromOptions(options),
-      writeConcern: WriteConcern.fromOptions(options)
+      writeConcern: WriteConcern.fromOptions(options),
+      timeoutMS: options?.timeoutMS
     };
   }
 
@@ -237,6 +251,14 @@ export class Collection<TSchema extends Document = Document> {
     return this.s.bsonOptions;
   }
 
+  /**
+   * The default `timeoutMS` of operations on this collection. If not explicitly defined for
+   * this collection, will be inherited from the parent DB
+   */
+  get timeoutMS(): number | undefined {
+    return this.s.timeoutMS ?? this.s.db.timeoutMS;
+  }
+
   /**
    * The current writeConcern of the collection. If not explicitly defined for
    * this collection, will be inherited from the parent DB
@@ -1043,6 +1065,128 @@ export class Collection<TSchema extends Document = Document> {
     );
   }
 
+  /**
+   * Creates an Atlas Search or Atlas Vector Search index on this collection. The index is built
+   * asynchronously, {@link Collection#listSearchIndexes| listSearchIndexes} reports when it is
+   * queryable.
+   *
+   * @param description - The name, type and definition of the index
+   * @param callback - An optional callback, a Promise will be returned if none is provided
+   * @returns The name of the created index
+   *
+   * @example
+   * ```js
+   * await collection.createSearchIndex({
+   *   name: 'embeddings',
+   *   type: 'vectorSearch',
+   *   definition: {
+   *     fields: [{ type: 'vector', path: 'embedding', numDimensions: 1536, similarity: 'cosine' }]
+   *   }
+   * });
+   * ```
+   */
+  createSearchIndex(description: SearchIndexDescription): Promise<string>;
+  createSearchIndex(description: SearchIndexDescription, callback: Callback<string>): void;
+  createSearchIndex(
+    description: SearchIndexDescription,
+    callback?: Callback<string>
+  ): Promise<string> | void {
+    return maybePromise(callback, callback =>
+      this.createSearchIndexes([description], (err, names) => {
+        if (err || !names) return callback(err);
+        callback(undefined, names[0]);
+      })
+    );
+  }
+
+  /**
+   * Creates multiple Atlas Search or Atlas Vector Search indexes on this collection.
+   *
+   * @param descriptions - The name, type and definition of each index
+   * @param callback - An optional callback, a Promise will be returned if none is provided
+   * @returns The names of the created indexes
+   */
+  createSearchIndexes(descriptions: SearchIndexDescription[]): Promise<string[]>;
+  createSearchIndexes(descriptions: SearchIndexDescription[], callback: Callback<string[]>): void;
+  createSearchIndexes(
+    descriptions: SearchIndexDescription[],
+    callback?: Callback<string[]>
+  ): Promise<string[]> | void {
+    return executeOperation(
+      this,
+      new CreateSearchIndexesOperation(this as TODO_NODE_3286, descriptions, resolveOptions(this)),
+      callback
+    );
+  }
+
+  /**
+   * Returns a cursor over the Atlas Search and Atlas Vector Search indexes of this collection,
+   * or over the index called `name`, including their build status.
+   *
+   * @param name - The name of the index to list, all indexes are listed if omitted
+   * @param options - Optional settings for the aggregation
+   */
+  listSearchIndexes(options?: ListSearchIndexesOptions): AggregationCursor<Document>;
+  listSearchIndexes(name: string, options?: ListSearchIndexesOptions): AggregationCursor<Document>;
+  listSearchIndexes(
+    name?: string | ListSearchIndexesOptions,
+    options?: ListSearchIndexesOptions
+  ): AggregationCursor<Document> {
+    if (typeof name !== 'string') (options = name), (name = undefined);
+
+    const stage = name == null ? {} : { name };
+    return this.aggregate([{ $listSearchIndexes: stage }], options);
+  }
+
+  /**
+   * Replaces the definition of the Atlas Search or Atlas Vector Search index called `name`.
+   *
+   * @param name - The name of the index to update
+   * @param definition - The new definition of the index
+   * @param callback - An optional callback, a Promise will be returned if none is provided
+   */
+  updateSearchIndex(
+    name: string,
+    definition: SearchIndexDefinition | VectorSearchIndexDefinition
+  ): Promise<void>;
+  updateSearchIndex(
+    name: string,
+    definition: SearchIndexDefinition | VectorSearchIndexDefinition,
+    callback: Callback<void>
+  ): void;
+  updateSearchIndex(
+    name: string,
+    definition: SearchIndexDefinition | VectorSearchIndexDefinition,
+    callback?: Callback<void>
+  ): Promise<void> | void {
+    return executeOperation(
+      this,
+      new UpdateSearchIndexOperation(
+        this as TODO_NODE_3286,
+        name,
+        definition,
+        resolveOptions(this)
+      ),
+      callback
+    );
+  }
+
+  /**
+   * Drops the Atlas Search or Atlas Vector Search index called `name`.
+   *
+   * @param name - The name of the index to drop
+   * @param callback - An optional callback, a Promise will be returned if none is provided
+   */
+  dropSearchIndex(name: string): Promise<void>;
+  dropSearchIndex(name: string, callback: Callback<void>): void;
+  dropSearchIndex(name: string, callback?: Callback<void>): Promise<void> | void {
+    return executeOperation(
+      this,
+      new DropSearchIndexOperation(this as TODO_NODE_3286, name, resolveOptions(this)),
+      callback
+    );
+  }
+
   /**
    * Gets an estimate of the count of documents in a collection using collection metadata.
    *
@@ -1,11 +1,13 @@
-import * as dns from 'dns';
 import * as fs from 'fs';
 import ConnectionString from 'mongodb-connection-string-url';
+import { nextTick } from 'next-tick';
 
 import type { Document } from './bson.ts';
+import { getCustomAuthProvider } from './cmap/auth/auth_provider.ts';
 import { MongoCredentials } from './cmap/auth/mongo_credentials.ts';
 import { AUTH_MECHS_AUTH_SRC_EXTERNAL, AuthMechanism } from './cmap/auth/providers.ts';
 import { Compressor, CompressorName } from './cmap/wire_protocol/compression.ts';
+import { DnsResolver, getDnsResolver, parseNameserver } from './dns_resolver.ts';
 import { Encrypter } from './encrypter.ts';
 import { MongoAPIError, MongoInvalidArgumentError, MongoParseError } from './error.ts';
 import { Logger, LoggerLevel } from './logger.ts';
@@ -21,6 +23,8 @@ import {
 import { PromiseProvider } from './promise_provider.ts';
 import { ReadConcern, ReadConcernLevel } from './read_concern.ts';
 import { ReadPreference, ReadPreferenceMode } from './read_preference.ts';
+import { resolveRetryPolicy, RetryPolicy } from './retry_policy.ts';
+import { ServerMonitoringMode } from './sdam/monitor.ts';
 import type { TagSet } from './sdam/server_description.ts';
 import {
   AnyOptions,
@@ -28,6 +32,7 @@ import {
   DEFAULT_PK_FACTORY,
   emitWarning,
   emitWarningOnce,
+  enumToString,
   HostAddress,
   isRecord,
   makeClientMetadata,
@@ -65,96 +70,94 @@ function matchesParentDomain(srvAddress: string, parentDomain: string): boolean
  * @param options - Optional user provided connection string options
  */
 export function resolveSRVRecord(options: MongoOptions, callback: Callback<HostAddress[]>): void {
+  // the callback runs outside of the promise chain, so that it throwing is not swallowed
+  resolveSRVHosts(options).then(
+    hostAddresses => nextTick(() => callback(undefined, hostAddresses)),
+    error => nextTick(() => callback(error))
+  );
+}
+
+async function resolveSRVHosts(options: MongoOptions): Promise<HostAddress[]> {
   if (typeof options.srvHost !== 'string') {
-    return callback(new MongoAPIError('Option "srvHost" must not be empty'));
+    throw new MongoAPIError('Option "srvHost" must not be empty');
   }
 
   if (options.srvHost.split('.').length < 3) {
     // TODO(NODE-3484): Replace with MongoConnectionStringError
-    return callback(new MongoAPIError('URI must include hostname, domain name, and tld'));
+    throw new MongoAPIError('URI must include hostname, domain name, and tld');
   }
 
+  const resolver = getDnsResolver(options);
+
   // Resolve the SRV record and use the result as the list of hosts to connect to.
   const lookupAddress = options.srvHost;
-  dns.resolveSrv(`_${options.srvServiceName}._tcp.${lookupAddress}`, (err, addresses) => {
-    if (err) return callback(err);
+  const addresses = await resolver.resolveSrv(`_${options.srvServiceName}._tcp.${lookupAddress}`);
+  if (addresses.length === 0) {
+    throw new MongoAPIError('No addresses found at host');
+  }
 
-    if (addresses.length === 0) {
-      return callback(new MongoAPIError('No addresses found at host'));
+  for (const { name } of addresses) {
+    if (!matchesParentDomain(name, lookupAddress)) {
+      throw new MongoAPIError('Server record does not share hostname with parent URI');
     }
+  }
 
-    for (const { name } of addresses) {
-      if (!matchesParentDomain(name, lookupAddress)) {
-        return callback(new MongoAPIError('Server record does not share hostname with parent URI'));
-      }
-    }
+  const hostAddresses = addresses.map(r => HostAddress.fromString(`${r.name}:${r.port ?? 27017}`));
 
-    const hostAddresses = addresses.map(r =>
-      HostAddress.fromString(`${r.name}:${r.port ?? 27017}`)
-    );
+  const lbError = validateLoadBalancedOptions(hostAddresses, options, true);
+  if (lbError) {
+    throw lbError;
+  }
 
-    const lbError = validateLoadBalancedOptions(hostAddresses, options, true);
-    if (lbError) {
-      return callback(lbError);
+  // Resolve TXT record and add options from there if they exist.
+  const record = await resolver.resolveTxt(lookupAddress);
+  if (record.length > 0) {
+    if (record.length > 1) {
+      throw new MongoParseError('Multiple text records not allowed');
     }
 
-    // Resolve TXT record and add options from there if they exist.
-    dns.resolveTxt(lookupAddress, (err, record) => {
-      if (err) {
-        if (err.code !== 'ENODATA' && err.code !== 'ENOTFOUND') {
-          return callback(err);
-        }
-      } else {
-        if (record.length > 1) {
-          return callback(new MongoParseError('Multiple text records not allowed'));
-        }
+    const txtRecordOptions = new URLSearchParams(record[0].join(''));
+    const txtRecordOptionKeys = [...txtRecordOptions.keys()];
+    if (txtRecordOptionKeys.some(key => !VALID_TXT_RECORDS.includes(key))) {
+      throw new MongoParseError(`Text record may only set any of: ${VALID_TXT_RECORDS.join(', ')}`);
+    }
 
-        const txtRecordOptions = new URLSearchParams(record[0].join(''));
-        const txtRecordOptionKeys = [...txtRecordOptions.keys()];
-        if (txtRecordOptionKeys.some(key => !VALID_TXT_RECORDS.includes(key))) {
-          return callback(
-            new MongoParseError(`Text record may only set any of: ${VALID_TXT_RECORDS.join(', ')}`)
-          );
-        }
+    if (VALID_TXT_RECORDS.some(option => txtRecordOptions.get(option) === '')) {
+      throw new MongoParseError('Cannot have empty URI params in DNS TXT Record');
+    }
 
-        if (VALID_TXT_RECORDS.some(option => txtRecordOptions.get(option) === '')) {
-          return callback(new MongoParseError('Cannot have empty URI params in DNS TXT Record'));
-        }
+    const source = txtRecordOptions.get('authSource') ?? undefined;
+    const replicaSet = txtRecordOptions.get('replicaSet') ?? undefined;
+    const loadBalanced = txtRecordOptions.get('loadBalanced') ?? undefined;
 
-        const source = txtRecordOptions.get('authSource') ?? undefined;
-        const replicaSet = txtRecordOptions.get('replicaSet') ?? undefined;
-        const loadBalanced = txtRecordOptions.get('loadBalanced') ?? undefined;
-
-        if (
-          !options.userSpecifiedAuthSource &&
-          source &&
-          options.credentials &&
-          !AUTH_MECHS_AUTH_SRC_EXTERNAL.has(options.credentials.mechanism)
-        ) {
-          options.credentials = MongoCredentials.merge(options.credentials, { source });
-        }
+    if (
+      !options.userSpecifiedAuthSource &&
+      source &&
+      options.credentials &&
+      !AUTH_MECHS_AUTH_SRC_EXTERNAL.has(options.credentials.mechanism)
+    ) {
+      options.credentials = MongoCredentials.merge(options.credentials, { source });
+    }
 
-        if (!options.userSpecifiedReplicaSet && replicaSet) {
-          options.replicaSet = replicaSet;
-        }
+    if (!options.userSpecifiedReplicaSet && replicaSet) {
+      options.replicaSet = replicaSet;
+    }
 
-        if (loadBalanced === 'true') {
-          options.loadBalanced = true;
-        }
+    if (loadBalanced === 'true') {
+      options.loadBalanced = true;
+    }
 
-        if (options.replicaSet && options.srvMaxHosts > 0) {
-          return callback(new MongoParseError('Cannot combine replicaSet option with srvMaxHosts'));
-        }
+    if (options.replicaSet && options.srvMaxHosts > 0) {
+      throw new MongoParseError('Cannot combine replicaSet option with srvMaxHosts');
+    }
 
-        const lbError = validateLoadBalancedOptions(hostAddresses, options, true);
-        if (lbError) {
-          return callback(lbError);
-        }
-      }
+    const lbError = validateLoadBalancedOptions(hostAddresses, options, true);
+    if (lbError) {
+      throw lbError;
+    }
+  }
 
-      callback(undefined, hostAddresses);
-    });
-  });
+  return hostAddresses;
 }
 
 /**
@@ -387,8 +390,9 @@ export function parseOptions(
     const isGssapi = mongoOptions.credentials.mechanism === AuthMechanism.MONGODB_GSSAPI;
     const isX509 = mongoOptions.credentials.mechanism === AuthMechanism.MONGODB_X509;
     const isAws = mongoOptions.credentials.mechanism === AuthMechanism.MONGODB_AWS;
+    const isOidc = mongoOptions.credentials.mechanism === AuthMechanism.MONGODB_OIDC;
     if (
-      (isGssapi || isX509) &&
+      (isGssapi || isX509 || isOidc) &&
       allOptions.has('authSource') &&
       mongoOptions.credentials.source !== '$external'
     ) {
@@ -398,7 +402,7 @@ export function parseOptions(
       );
     }
 
-    if (!(isGssapi || isX509 || isAws) && mongoOptions.dbName && !allOptions.has('authSource')) {
+    if (!(isGssapi || isX509 || isAws || isOidc) && mongoOptions.dbName && !allOptions.has('authSource')) {
       // inherit the dbName unless GSSAPI or X509, then silently ignore dbName
       // and there was no specific authSource given
       mongoOptions.credentials = MongoCredentials.merge(mongoOptions.credentials, {
@@ -620,7 +624,10 @@ export const OPTIONS = {
     target: 'credentials',
     transform({ options, values: [value] }): MongoCredentials {
       const mechanisms = Object.values(AuthMechanism);
-      const [mechanism] = mechanisms.filter(m => m.match(RegExp(String.raw`\b${value}\b`, 'i')));
+      // mechanisms registered with `registerAuthProvider` are matched exactly, and first
+      const [mechanism] = getCustomAuthProvider(String(value))
+        ? [String(value).toUpperCase() as AuthMechanism]
+        : mechanisms.filter(m => m.match(RegExp(String.raw`\b${value}\b`, 'i')));
       if (!mechanism) {
         throw new MongoParseError(`authMechanism one of ${mechanisms}, got ${value}`);
       }
@@ -738,6 +745,14 @@ export const OPTIONS = {
     default: 30000,
     type: 'uint'
   },
+  credentialProvider: {
+    transform({ name, values: [value] }): unknown {
+      if (typeof value !== 'function') {
+        throw new MongoParseError(`Option '${name}' must be a function`);
+      }
+      return value;
+    }
+  },
   dbName: {
     type: 'string'
   },
@@ -745,6 +760,29 @@ export const OPTIONS = {
     default: false,
     type: 'boolean'
   },
+  dnsNameserver: {
+    transform({ name, values: [value] }): string {
+      if (typeof value !== 'string' || value === '') {
+        throw new MongoParseError(`Option '${name}' must be a non-empty string`);
+      }
+      // throws if the port is invalid
+      parseNameserver(value);
+      return value;
+    }
+  },
+  dnsResolver: {
+    transform({ name, values: [value] }): DnsResolver {
+      const resolver = value as DnsResolver;
+      if (
+        !isRecord(value) ||
+        typeof resolver.resolveSrv !== 'function' ||
+        typeof resolver.resolveTxt !== 'function'
+      ) {
+        throw new MongoParseError(`Option '${name}' must implement resolveSrv and resolveTxt`);
+      }
+      return resolver;
+    }
+  },
   driverInfo: {
     target: 'metadata',
     default: makeClientMetadata(),
@@ -855,6 +893,16 @@ export const OPTIONS = {
       return new Logger('MongoClient', { loggerLevel: value as LoggerLevel });
     }
   },
+  maxConnecting: {
+    default: 2,
+    transform({ name, values: [value] }): number {
+      const maxConnecting = getUint(name, value);
+      if (maxConnecting === 0) {
+        throw new MongoInvalidArgumentError('maxConnecting must be > 0 if specified');
+      }
+      return maxConnecting;
+    }
+  },
   maxIdleTimeMS: {
     default: 0,
     type: 'uint'
@@ -1033,9 +1081,36 @@ export const OPTIONS = {
     default: true,
     type: 'boolean'
   },
+  retryPolicy: {
+    transform({ values: [value] }): unknown {
+      // throws if any of the settings is invalid
+      resolveRetryPolicy(value as RetryPolicy);
+      return value;
+    }
+  },
   serializeFunctions: {
     type: 'boolean'
   },
+  serverSelectionHook: {
+    transform({ name, values: [value] }): unknown {
+      if (typeof value !== 'function') {
+        throw new MongoParseError(`Option '${name}' must be a function`);
+      }
+      return value;
+    }
+  },
+  serverMonitoringMode: {
+    default: 'auto',
+    transform({ name, values: [value] }): ServerMonitoringMode {
+      const modes: unknown[] = Object.values(ServerMonitoringMode);
+      if (!modes.includes(value)) {
+        throw new MongoParseError(
+          `Option '${name}' must be one of ${enumToString(ServerMonitoringMode)}, got ${value}`
+        );
+      }
+      return value as ServerMonitoringMode;
+    }
+  },
   serverSelectionTimeoutMS: {
     default: 30000,
     type: 'uint'
@@ -1092,6 +1167,9 @@ export const OPTIONS = {
     target: 'rejectUnauthorized',
     type: 'boolean'
   },
+  timeoutMS: {
+    type: 'uint'
+  },
   tls: {
     type: 'boolean'
   },
@@ -1209,6 +1287,18 @@ export const OPTIONS = {
     default: 0,
     type: 'int'
   },
+  zstdCompressionLevel: {
+    default: 0,
+    transform({ name, values: [value] }): number {
+      const level = getInt(name, value);
+      if (level < 0 || level > 22) {
+        throw new MongoParseError(
+          `${name} must be between 0 (the library default) and 22, got ${level}`
+        );
+      }
+      return level;
+    }
+  },
   // Custom types for modifying core behavior
   connectionType: { type: 'any' },
   srvPoller: { type: 'any' },
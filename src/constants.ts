@@ -23,9 +23,11 @@ export const SERVER_DESCRIPTION_CHANGED = 'serverDescriptionChanged' as const;
 export const TOPOLOGY_OPENING = 'topologyOpening' as const;
 export const TOPOLOGY_CLOSED = 'topologyClosed' as const;
 export const TOPOLOGY_DESCRIPTION_CHANGED = 'topologyDescriptionChanged' as const;
+export const RETRY_ATTEMPT = 'retryAttempt' as const;
 export const CONNECTION_POOL_CREATED = 'connectionPoolCreated' as const;
 export const CONNECTION_POOL_CLOSED = 'connectionPoolClosed' as const;
 export const CONNECTION_POOL_CLEARED = 'connectionPoolCleared' as const;
+export const CONNECTION_POOL_READY = 'connectionPoolReady' as const;
 export const CONNECTION_CREATED = 'connectionCreated' as const;
 export const CONNECTION_READY = 'connectionReady' as const;
 export const CONNECTION_CLOSED = 'connectionClosed' as const;
@@ -65,7 +67,8 @@ export const CMAP_EVENTS = Object.freeze([
   CONNECTION_CHECK_OUT_FAILED,
   CONNECTION_CHECKED_OUT,
   CONNECTION_CHECKED_IN,
-  CONNECTION_POOL_CLEARED
+  CONNECTION_POOL_CLEARED,
+  CONNECTION_POOL_READY
 ] as const);
 
 /** @public */
@@ -76,6 +79,7 @@ export const TOPOLOGY_EVENTS = Object.freeze([
   TOPOLOGY_OPENING,
   TOPOLOGY_CLOSED,
   TOPOLOGY_DESCRIPTION_CHANGED,
+  RETRY_ATTEMPT,
   ERROR,
   TIMEOUT,
   CLOSE
@@ -3,6 +3,7 @@ import { Readable, Transform } from 'stream';
 import { BSONSerializeOptions, Document, Long, pluckBSONSerializeOptions } from '../bson.ts';
 import {
   AnyError,
+  MongoAbortError,
   MongoCursorExhaustedError,
   MongoCursorInUseError,
   MongoInvalidArgumentError,
@@ -10,15 +11,22 @@ import {
   MongoRuntimeError,
   MongoTailableCursorError
 } from '../error.ts';
-import { TODO_NODE_3286, TypedEventEmitter } from '../mongo_types.ts';
+import { Abortable, TODO_NODE_3286, TypedEventEmitter } from '../mongo_types.ts';
 import { executeOperation, ExecutionResult } from '../operations/execute_operation.ts';
-import { GetMoreOperation } from '../operations/get_more.ts';
+import { GetMoreOperation, GetMoreOptions } from '../operations/get_more.ts';
 import { ReadConcern, ReadConcernLike } from '../read_concern.ts';
 import { ReadPreference, ReadPreferenceLike } from '../read_preference.ts';
 import type { Server } from '../sdam/server.ts';
 import type { Topology } from '../sdam/topology.ts';
 import { ClientSession, maybeClearPinnedConnection } from '../sessions.ts';
-import { Callback, maybePromise, MongoDBNamespace, ns } from '../utils.ts';
+import {
+  addAbortListener,
+  Callback,
+  maxWireVersion,
+  maybePromise,
+  MongoDBNamespace,
+  ns
+} from '../utils.ts';
 
 /** @internal */
 const kId = Symbol('id');
@@ -44,6 +52,11 @@ const kClosed = Symbol('closed');
 const kKilled = Symbol('killed');
 /** @internal */
 const kInit = Symbol('kInit');
+/** @internal */
+const kExhaustStream = Symbol('exhaustStream');
+
+/** Exhaust `getMore`s are only supported over OP_MSG, from MongoDB 4.2 on */
+const MIN_EXHAUST_WIRE_VERSION = 8;
 
 /** @public */
 export const CURSOR_FLAGS = [
@@ -73,12 +86,14 @@ export interface CursorStreamOptions {
 export type CursorFlag = typeof CURSOR_FLAGS[number];
 
 /** @public */
-export interface AbstractCursorOptions extends BSONSerializeOptions {
+export interface AbstractCursorOptions extends BSONSerializeOptions, Abortable {
   session?: ClientSession;
   readPreference?: ReadPreferenceLike;
   readConcern?: ReadConcernLike;
   batchSize?: number;
   maxTimeMS?: number;
+  /** Bounds the initial command and each `getMore` separately, see `OperationOptions.timeoutMS` */
+  timeoutMS?: number;
   /**
    * Comment to apply to the operation.
    *
@@ -137,6 +152,8 @@ export abstract class AbstractCursor<
   [kKilled]: boolean;
   /** @internal */
   [kOptions]: InternalAbstractCursorOptions;
+  /** @internal */
+  [kExhaustStream]?: ExhaustStream;
 
   /** @event */
   static readonly CLOSE = 'close' as const;
@@ -182,6 +199,21 @@ export abstract class AbstractCursor<
       this[kOptions].maxTimeMS = options.maxTimeMS;
     }
 
+    if (typeof options.timeoutMS === 'number') {
+      this[kOptions].timeoutMS = options.timeoutMS;
+    }
+
+    if (options.signal) {
+      this[kOptions].signal = options.signal;
+      // the operation in flight fails on its own, an idle cursor is killed on the server
+      const removeAbortListener = addAbortListener(options.signal, () => {
+        if (!this[kClosed]) {
+          this.close(() => null);
+        }
+      });
+      this.once(AbstractCursor.CLOSE, removeAbortListener);
+    }
+
     if (options.session instanceof ClientSession) {
       this[kSession] = options.session;
     }
@@ -286,6 +318,11 @@ export abstract class AbstractCursor<
   hasNext(callback: Callback<boolean>): void;
   hasNext(callback?: Callback<boolean>): Promise<boolean> | void {
     return maybePromise(callback, done => {
+      const abortError = checkAborted(this);
+      if (abortError) {
+        return done(abortError);
+      }
+
       if (this[kId] === Long.ZERO) {
         return done(undefined, false);
       }
@@ -314,6 +351,11 @@ export abstract class AbstractCursor<
   next(callback?: Callback<TSchema | null>): Promise<TSchema | null> | void;
   next(callback?: Callback<TSchema | null>): Promise<TSchema | null> | void {
     return maybePromise(callback, done => {
+      const abortError = checkAborted(this);
+      if (abortError) {
+        return done(abortError);
+      }
+
       if (this[kId] === Long.ZERO) {
         return done(new MongoCursorExhaustedError());
       }
@@ -329,6 +371,11 @@ export abstract class AbstractCursor<
   tryNext(callback: Callback<TSchema | null>): void;
   tryNext(callback?: Callback<TSchema | null>): Promise<TSchema | null> | void {
     return maybePromise(callback, done => {
+      const abortError = checkAborted(this);
+      if (abortError) {
+        return done(abortError);
+      }
+
       if (this[kId] === Long.ZERO) {
         return done(new MongoCursorExhaustedError());
       }
@@ -580,6 +627,8 @@ export abstract class AbstractCursor<
       return;
     }
 
+    this[kExhaustStream]?.close();
+    this[kExhaustStream] = undefined;
     this[kId] = undefined;
     this[kDocuments] = [];
     this[kClosed] = false;
@@ -624,6 +673,24 @@ export abstract class AbstractCursor<
       return;
     }
 
+    if (
+      this[kOptions].exhaust &&
+      maxWireVersion(server) >= MIN_EXHAUST_WIRE_VERSION &&
+      this[kSession]?.pinnedConnection == null
+    ) {
+      const exhaustStream = this[kExhaustStream] ?? new ExhaustStream();
+      this[kExhaustStream] = exhaustStream;
+
+      const options = { ...this[kOptions], session: this[kSession], batchSize };
+      // comment on getMore is only supported for server versions 4.4 and above
+      if (maxWireVersion(server) < 9) {
+        delete options.comment;
+      }
+
+      exhaustStream.next(server, cursorNs, cursorId, options, callback);
+      return;
+    }
+
     const getMoreOperation = new GetMoreOperation(cursorNs, cursorId, server, {
       ...this[kOptions],
       session: this[kSession],
@@ -693,6 +760,78 @@ export abstract class AbstractCursor<
   }
 }
 
+/**
+ * Buffers the batches of an exhaust `getMore`. Once it has been sent the server pushes every
+ * remaining batch over the same connection without being asked, so batches that arrive before
+ * the cursor needs them are queued here.
+ * @internal
+ */
+class ExhaustStream {
+  replies: { error?: AnyError; response?: Document }[];
+  waiting?: Callback<Document>;
+  streaming: boolean;
+  cancel?: () => void;
+
+  constructor() {
+    this.replies = [];
+    this.streaming = false;
+  }
+
+  /** Hands the next batch to `callback`, sending a new exhaust `getMore` if none is streaming */
+  next(
+    server: Server,
+    ns: MongoDBNamespace,
+    cursorId: Long,
+    options: GetMoreOptions,
+    callback: Callback<Document>
+  ): void {
+    const reply = this.replies.shift();
+    if (reply) {
+      callback(reply.error, reply.response);
+      return;
+    }
+
+    this.waiting = callback;
+    if (this.streaming) {
+      return;
+    }
+
+    this.streaming = true;
+    this.cancel = server.exhaustGetMore(ns, cursorId, options, (error, reply) => {
+      if (error || !reply?.moreToCome) {
+        this.streaming = false;
+      }
+
+      const waiting = this.waiting;
+      if (waiting) {
+        this.waiting = undefined;
+        waiting(error, reply?.response);
+        return;
+      }
+
+      this.replies.push({ error, response: reply?.response });
+    });
+  }
+
+  /**
+   * Stops a stream that is still running. An iteration waiting on it is handed an empty batch,
+   * so it ends the same way it would for a cursor closed during a regular `getMore`.
+   */
+  close(cursorId?: Long): void {
+    if (this.streaming) {
+      this.streaming = false;
+      this.cancel?.();
+    }
+
+    this.replies = [];
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) {
+      waiting(undefined, { cursor: { id: cursorId ?? Long.ZERO, nextBatch: [] } });
+    }
+  }
+}
+
 function nextDocument<T>(cursor: AbstractCursor): T | null {
   if (cursor[kDocuments] == null || !cursor[kDocuments].length) {
     return null;
@@ -713,6 +852,11 @@ function nextDocument<T>(cursor: AbstractCursor): T | null {
 
 function next<T>(cursor: AbstractCursor<T>, blocking: boolean, callback: Callback<T | null>): void {
   const cursorId = cursor[kId];
+  const abortError = checkAborted(cursor);
+  if (abortError) {
+    return callback(abortError);
+  }
+
   if (cursor.closed) {
     return callback(undefined, null);
   }
@@ -764,6 +908,12 @@ function next<T>(cursor: AbstractCursor<T>, blocking: boolean, callback: Callbac
   });
 }
 
+/** The error iteration fails with once the cursor's `signal` has been aborted */
+function checkAborted(cursor: AbstractCursor): MongoAbortError | undefined {
+  const signal = cursor[kOptions].signal;
+  return signal?.aborted ? new MongoAbortError(signal.reason) : undefined;
+}
+
 function cursorIsDead(cursor: AbstractCursor): boolean {
   const cursorId = cursor[kId];
   return !!cursorId && cursorId.isZero();
@@ -781,6 +931,9 @@ function cleanupCursor(
   const error = options?.error;
   const needsToEmitClosed = options?.needsToEmitClosed ?? cursor[kDocuments].length === 0;
 
+  // an exhaust stream still running holds a connection that is useless to anyone else
+  cursor[kExhaustStream]?.close(cursorId);
+
   if (error) {
     if (cursor.loadBalanced && error instanceof MongoNetworkError) {
       return completeCleanup();
@@ -76,7 +76,9 @@ const DB_OPTIONS_ALLOW_LIST = [
   'enableUtf8Validation',
   'promoteValues',
   'compression',
-  'retryWrites'
+  'retryWrites',
+  'timeoutMS',
+  'retryPolicy'
 ];
 
 /** @internal */
@@ -89,6 +91,7 @@ export interface DbPrivate {
   readConcern?: ReadConcern;
   bsonOptions: BSONSerializeOptions;
   writeConcern?: WriteConcern;
+  timeoutMS?: number;
   namespace: MongoDBNamespace;
 }
 
@@ -106,6 +109,8 @@ export interface DbOptions extends BSONSerializeOptions, WriteConcernOptions, Lo
   readConcern?: ReadConcern;
   /** Should retry failed writes */
   retryWrites?: boolean;
+  /** The default `timeoutMS` of operations on this database, inherited from the MongoClient when not set */
+  timeoutMS?: number;
 }
 
 /**
@@ -171,6 +176,7 @@ export class Db {
       // ReadConcern
       readConcern: ReadConcern.fromOptions(options),
       writeConcern: WriteConcern.fromOptions(options),
+      timeoutMS: options.timeoutMS,
       // Namespace
       namespace: new MongoDBNamespace(databaseName)
     };
@@ -220,6 +226,11 @@ export class Db {
     return this.s.bsonOptions;
   }
 
+  /** The default `timeoutMS` of operations on this Db, inherited from the parent MongoClient */
+  get timeoutMS(): number | undefined {
+    return this.s.timeoutMS;
+  }
+
   // get the write Concern
   get writeConcern(): WriteConcern | undefined {
     return this.s.writeConcern;
@@ -3,9 +3,7 @@ import type { deserialize, Document, serialize } from './bson.ts';
 import type { ProxyOptions } from './cmap/connection.ts';
 import { MongoMissingDependencyError } from './error.ts';
 import type { MongoClient } from './mongo_client.ts';
-import { Callback, parsePackageVersion } from './utils.ts';
-
-export const PKG_VERSION = Symbol('kPkgVersion');
+import type { Callback } from './utils.ts';
 
 function makeErrorModule(error: any) {
   const props = error ? { kModuleError: error } : {};
@@ -32,91 +30,52 @@ export interface KerberosClient {
   unwrap: (challenge: string, callback?: Callback<string>) => Promise<string> | void;
 }
 
-type SnappyLib = {
-  [PKG_VERSION]: { major: number; minor: number; patch: number };
-
+/** @public */
+export type ZStandardLib = {
   /**
-   * - Snappy 6.x takes a callback and returns void
-   * - Snappy 7.x returns a promise
-   *
-   * In order to support both we must check the return value of the function
-   * @param buf - Buffer to be compressed
-   * @param callback - ONLY USED IN SNAPPY 6.x
+   * Compress using zstd.
+   * @param buf - Buffer to be compressed.
+   * @param level - Compression level, the library default is used when omitted.
    */
-  compress(buf: Buffer): Promise<Buffer>;
-  compress(buf: Buffer, callback: (error?: Error, buffer?: Buffer) => void): Promise<Buffer> | void;
-  compress(
-    buf: Buffer,
-    callback?: (error?: Error, buffer?: Buffer) => void
-  ): Promise<Buffer> | void;
+  compress(buf: Buffer, level?: number): Promise<Buffer>;
 
   /**
-   * - Snappy 6.x takes a callback and returns void
-   * - Snappy 7.x returns a promise
-   *
-   * In order to support both we must check the return value of the function
-   * @param buf - Buffer to be compressed
-   * @param callback - ONLY USED IN SNAPPY 6.x
+   * Decompress using zstd.
+   * @param buf - Buffer to be decompressed.
    */
-  uncompress(buf: Buffer, opt: { asBuffer: true }): Promise<Buffer>;
-  uncompress(
-    buf: Buffer,
-    opt: { asBuffer: true },
-    callback: (error?: Error, buffer?: Buffer) => void
-  ): Promise<Buffer> | void;
-  uncompress(
-    buf: Buffer,
-    opt: { asBuffer: true },
-    callback?: (error?: Error, buffer?: Buffer) => void
-  ): Promise<Buffer> | void;
+  decompress(buf: Buffer): Promise<Buffer>;
 };
 
+export let ZStandard: ZStandardLib | { kModuleError: MongoMissingDependencyError } =
+  makeErrorModule(
+    new MongoMissingDependencyError(
+      'Optional module `@mongodb-js/zstd` not found. Please install it to enable zstd compression'
+    )
+  );
 
-interface AWS4 {
-  /**
-   * Created these inline types to better assert future usage of this API
-   * @param options - options for request
-   * @param credentials - AWS credential details, sessionToken should be omitted entirely if its false-y
-   */
-  sign(
-    options: {
-      path: '/';
-      body: string;
-      host: string;
-      method: 'POST';
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded';
-        'Content-Length': number;
-        'X-MongoDB-Server-Nonce': string;
-        'X-MongoDB-GS2-CB-Flag': 'n';
-      };
-      service: string;
-      region: string;
-    },
-    credentials:
-      | {
-          accessKeyId: string;
-          secretAccessKey: string;
-          sessionToken: string;
-        }
-      | {
-          accessKeyId: string;
-          secretAccessKey: string;
-        }
-      | undefined
-  ): {
-    headers: {
-      Authorization: string;
-      'X-Amz-Date': string;
-    };
-  };
-}
+let zstandardLoader: Promise<void> | undefined;
 
-export let aws4: AWS4 | { kModuleError: MongoMissingDependencyError } = makeErrorModule(
-  new MongoMissingDependencyError(
-    'Optional module `aws4` not found. Please install it to enable AWS authentication'
-  )
-);
+/**
+ * Loads the optional `@mongodb-js/zstd` module the first time zstd compression is negotiated.
+ * The bare specifier is resolved through the import map; when it cannot be imported,
+ * `ZStandard` keeps reporting the missing dependency.
+ */
+export function loadZStandard(): Promise<void> {
+  if (zstandardLoader == null) {
+    // not a literal, so the module is only fetched once zstd is actually used
+    const specifier = '@mongodb-js/zstd';
+    zstandardLoader = import(specifier).then(
+      zstd => {
+        ZStandard = zstd.default ?? zstd;
+      },
+      () => {
+        // leave the error module in place
+      }
+    );
+  }
+
+  return zstandardLoader;
+}
 
 /** @public */
 export const AutoEncryptionLoggerLevel = Object.freeze({
@@ -0,0 +1,96 @@
+import { MongoParseError } from './error.ts';
+
+/**
+ * A service record, as returned for the `_mongodb._tcp` lookup of a `mongodb+srv` URI.
+ * @public
+ */
+export interface SrvRecord {
+  /** The host name of the server, without a trailing dot */
+  name: string;
+  port: number;
+  priority: number;
+  weight: number;
+}
+
+/**
+ * Performs the DNS lookups of `mongodb+srv` connection strings, both initially and while polling
+ * for changes to the seedlist.
+ * @public
+ */
+export interface DnsResolver {
+  /** Resolves the SRV records of `hostname`, e.g. `_mongodb._tcp.cluster0.example.com` */
+  resolveSrv(hostname: string): Promise<SrvRecord[]>;
+  /**
+   * Resolves the TXT records of `hostname`, each record as its list of strings. A host without
+   * TXT records resolves to an empty array.
+   */
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+/** @internal */
+export interface DnsResolverOptions {
+  dnsResolver?: DnsResolver;
+  dnsNameserver?: string;
+}
+
+/**
+ * Parses a nameserver given as `ip`, `ip:port` or `[ipv6]:port`.
+ * @internal
+ * @throws MongoParseError if the port is not valid
+ */
+export function parseNameserver(
+  nameserver: string
+): NonNullable<Deno.ResolveDnsOptions['nameServer']> {
+  const match =
+    /^\[(.+)\](?::(\d+))?$/.exec(nameserver) ?? /^([^:]+)(?::(\d+))?$/.exec(nameserver);
+  // anything else is taken for an IPv6 address without a port
+  const [ipAddr, port] = match ? [match[1], match[2]] : [nameserver, undefined];
+
+  if (port == null) {
+    return { ipAddr };
+  }
+
+  const portNumber = Number(port);
+  if (portNumber < 1 || portNumber > 65535) {
+    throw new MongoParseError(`Invalid port ${port} of nameserver '${nameserver}'`);
+  }
+
+  return { ipAddr, port: portNumber };
+}
+
+/**
+ * The resolver given in the options, or one built on `Deno.resolveDns` that queries
+ * `dnsNameserver` if set, and the system's nameservers otherwise.
+ * @internal
+ */
+export function getDnsResolver(options: DnsResolverOptions): DnsResolver {
+  if (options.dnsResolver) {
+    return options.dnsResolver;
+  }
+
+  const resolveOptions: Deno.ResolveDnsOptions | undefined = options.dnsNameserver
+    ? { nameServer: parseNameserver(options.dnsNameserver) }
+    : undefined;
+
+  return {
+    async resolveSrv(hostname) {
+      const records = await Deno.resolveDns(hostname, 'SRV', resolveOptions);
+      return records.map(({ target, port, priority, weight }) => ({
+        name: target.replace(/\.$/, ''),
+        port,
+        priority,
+        weight
+      }));
+    },
+    async resolveTxt(hostname) {
+      try {
+        return await Deno.resolveDns(hostname, 'TXT', resolveOptions);
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+          return [];
+        }
+        throw error;
+      }
+    }
+  };
+}
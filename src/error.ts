@@ -58,7 +58,8 @@ export const MONGODB_ERROR_CODES = Object.freeze({
   IllegalOperation: 20,
   MaxTimeMSExpired: 50,
   UnknownReplWriteConcern: 79,
-  UnsatisfiableWriteConcern: 100
+  UnsatisfiableWriteConcern: 100,
+  ReauthenticationRequired: 391
 } as const);
 
 // From spec@https://github.com/mongodb/specifications/blob/f93d78191f3db2898a59013a7ed5650352ef6da8/source/change-streams/change-streams.rst#resumable-error
@@ -556,6 +557,40 @@ export class MongoNetworkTimeoutError extends MongoNetworkError {
   }
 }
 
+/**
+ * An error thrown when an operation does not complete within its `timeoutMS`
+ * @public
+ * @category Error
+ */
+export class MongoOperationTimeoutError extends MongoDriverError {
+  constructor(message: string) {
+    super(message);
+  }
+
+  override get name(): string {
+    return 'MongoOperationTimeoutError';
+  }
+}
+
+/**
+ * An error thrown when an operation is cancelled through the `signal` passed in its options
+ * @public
+ * @category Error
+ */
+export class MongoAbortError extends MongoDriverError {
+  /** The `reason` of the aborted signal */
+  reason: unknown;
+
+  constructor(reason?: unknown) {
+    super(reason instanceof Error ? reason.message : 'The operation was aborted');
+    this.reason = reason;
+  }
+
+  override get name(): string {
+    return 'MongoAbortError';
+  }
+}
+
 /**
  * An error used when attempting to parse a value (like a connection string)
  * @public
@@ -9,16 +9,17 @@ import {
   MongoInvalidArgumentError,
   MongoRuntimeError
 } from '../error.ts';
+import type { Abortable } from '../mongo_types.ts';
 import type { FindOptions } from '../operations/find.ts';
 import type { ReadPreference } from '../read_preference.ts';
 import type { Sort } from '../sort.ts';
-import type { Callback } from '../utils.ts';
+import { addAbortListener, Callback } from '../utils.ts';
 import type { GridFSChunk } from './upload.ts';
 import { Buffer } from 'buffer';
 
 
 /** @public */
-export interface GridFSBucketReadStreamOptions {
+export interface GridFSBucketReadStreamOptions extends Abortable {
   sort?: Sort;
   skip?: number;
   /** 0-based offset in bytes to start streaming from */
@@ -65,6 +66,7 @@ export interface GridFSBucketReadStreamPrivate {
     skip?: number;
     start: number;
     end: number;
+    signal?: AbortSignal;
   };
   readPreference?: ReadPreference;
 }
@@ -136,6 +138,14 @@ export class GridFSBucketReadStream extends Readable implements NodeJS.ReadableS
       },
       readPreference
     };
+
+    const removeAbortListener = addAbortListener(options?.signal, error => {
+      if (!this.destroyed) {
+        this.emit(GridFSBucketReadStream.ERROR, error);
+        this.abort();
+      }
+    });
+    this.once(GridFSBucketReadStream.CLOSE, removeAbortListener);
   }
 
   /**
@@ -369,7 +379,9 @@ function init(stream: GridFSBucketReadStream): void {
         filter['n'] = { $gte: skip };
       }
     }
-    stream.s.cursor = stream.s.chunks.find(filter).sort({ n: 1 });
+    stream.s.cursor = stream.s.chunks
+      .find(filter, { signal: stream.s.options.signal })
+      .sort({ n: 1 });
 
     if (stream.s.readPreference) {
       stream.s.cursor.withReadPreference(stream.s.readPreference);
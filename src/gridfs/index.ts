@@ -4,7 +4,7 @@ import type { FindCursor } from '../cursor/find_cursor.ts';
 import type { Db } from '../db.ts';
 import { MongoRuntimeError } from '../error.ts';
 import type { Logger } from '../logger.ts';
-import { Filter, TypedEventEmitter } from '../mongo_types.ts';
+import { Abortable, Filter, TypedEventEmitter } from '../mongo_types.ts';
 import type { ReadPreference } from '../read_preference.ts';
 import type { Sort } from '../sort.ts';
 import { Callback, maybePromise } from '../utils.ts';
@@ -139,17 +139,27 @@ export class GridFSBucket extends TypedEventEmitter<GridFSBucketEvents> {
    * Deletes a file with the given id
    *
    * @param id - The id of the file doc
+   * @param options - Optional settings
    */
   delete(id: ObjectId): Promise<void>;
   delete(id: ObjectId, callback: Callback<void>): void;
-  delete(id: ObjectId, callback?: Callback<void>): Promise<void> | void {
+  delete(id: ObjectId, options: Abortable): Promise<void>;
+  delete(id: ObjectId, options: Abortable, callback: Callback<void>): void;
+  delete(
+    id: ObjectId,
+    options?: Abortable | Callback<void>,
+    callback?: Callback<void>
+  ): Promise<void> | void {
+    if (typeof options === 'function') (callback = options), (options = {});
+    const { signal } = options ?? {};
+
     return maybePromise(callback, callback => {
-      return this.s._filesCollection.deleteOne({ _id: id }, (error, res) => {
+      return this.s._filesCollection.deleteOne({ _id: id }, { signal }, (error, res) => {
         if (error) {
           return callback(error);
         }
 
-        return this.s._chunksCollection.deleteMany({ files_id: id }, error => {
+        return this.s._chunksCollection.deleteMany({ files_id: id }, { signal }, error => {
           if (error) {
             return callback(error);
           }
@@ -209,14 +219,25 @@ export class GridFSBucket extends TypedEventEmitter<GridFSBucketEvents> {
    *
    * @param id - the id of the file to rename
    * @param filename - new name for the file
+   * @param options - Optional settings
    */
   rename(id: ObjectId, filename: string): Promise<void>;
   rename(id: ObjectId, filename: string, callback: Callback<void>): void;
-  rename(id: ObjectId, filename: string, callback?: Callback<void>): Promise<void> | void {
+  rename(id: ObjectId, filename: string, options: Abortable): Promise<void>;
+  rename(id: ObjectId, filename: string, options: Abortable, callback: Callback<void>): void;
+  rename(
+    id: ObjectId,
+    filename: string,
+    options?: Abortable | Callback<void>,
+    callback?: Callback<void>
+  ): Promise<void> | void {
+    if (typeof options === 'function') (callback = options), (options = {});
+    const { signal } = options ?? {};
+
     return maybePromise(callback, callback => {
       const filter = { _id: id };
       const update = { $set: { filename } };
-      return this.s._filesCollection.updateOne(filter, update, (error?, res?) => {
+      return this.s._filesCollection.updateOne(filter, update, { signal }, (error?, res?) => {
         if (error) {
           return callback(error);
         }
@@ -233,13 +254,18 @@ export class GridFSBucket extends TypedEventEmitter<GridFSBucketEvents> {
   /** Removes this bucket's files collection, followed by its chunks collection. */
   drop(): Promise<void>;
   drop(callback: Callback<void>): void;
-  drop(callback?: Callback<void>): Promise<void> | void {
+  drop(options: Abortable): Promise<void>;
+  drop(options: Abortable, callback: Callback<void>): void;
+  drop(options?: Abortable | Callback<void>, callback?: Callback<void>): Promise<void> | void {
+    if (typeof options === 'function') (callback = options), (options = {});
+    const { signal } = options ?? {};
+
     return maybePromise(callback, callback => {
-      return this.s._filesCollection.drop(error => {
+      return this.s._filesCollection.drop({ signal }, error => {
         if (error) {
           return callback(error);
         }
-        return this.s._chunksCollection.drop(error => {
+        return this.s._chunksCollection.drop({ signal }, error => {
           if (error) {
             return callback(error);
           }
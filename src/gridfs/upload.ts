@@ -4,7 +4,8 @@ import type { Document } from '../bson.ts';
 import { ObjectId } from '../bson.ts';
 import type { Collection } from '../collection.ts';
 import { AnyError, MongoAPIError, MONGODB_ERROR_CODES, MongoError } from '../error.ts';
-import { Callback, maybePromise } from '../utils.ts';
+import type { Abortable } from '../mongo_types.ts';
+import { addAbortListener, Callback, maybePromise } from '../utils.ts';
 import type { WriteConcernOptions } from '../write_concern.ts';
 import { WriteConcern } from './../write_concern.ts';
 import type { GridFSFile } from './download.ts';
@@ -21,7 +22,7 @@ export interface GridFSChunk {
 }
 
 /** @public */
-export interface GridFSBucketWriteStreamOptions extends WriteConcernOptions {
+export interface GridFSBucketWriteStreamOptions extends WriteConcernOptions, Abortable {
   /** Overwrite this bucket's chunkSizeBytes for this file */
   chunkSizeBytes?: number;
   /** Custom file id for the GridFS file. */
@@ -103,6 +104,14 @@ export class GridFSBucketWriteStream extends Writable implements NodeJS.Writable
       aborted: false
     };
 
+    // aborting removes the chunks written so far, like `abort()`
+    const removeAbortListener = addAbortListener(options.signal, error => {
+      if (!this.state.streamEnd && !this.state.aborted) {
+        this.abort(() => __handleError(this, error));
+      }
+    });
+    this.once(GridFSBucketWriteStream.CLOSE, removeAbortListener);
+
     if (!this.bucket.s.calledOpenUploadStream) {
       this.bucket.s.calledOpenUploadStream = true;
 
@@ -36,8 +36,10 @@ export {
 export const ObjectID = ObjectId;
 
 export { MongoBulkWriteError } from './bulk/common.ts';
+export { MongoClientBulkWriteError } from './operations/client_bulk_write.ts';
 export type { AnyBulkWriteOperation,BulkWriteOptions } from './bulk/common.ts';
 export {
+  MongoAbortError,
   MongoAPIError,
   MongoBatchReExecutionError,
   MongoChangeStreamError,
@@ -57,6 +59,7 @@ export {
   MongoNetworkError,
   MongoNetworkTimeoutError,
   MongoNotConnectedError,
+  MongoOperationTimeoutError,
   MongoParseError,
   MongoRuntimeError,
   MongoServerClosedError,
@@ -89,6 +92,7 @@ export {
 
 // enums
 export { BatchType } from './bulk/common.ts';
+export { AuthContext, AuthProvider, registerAuthProvider } from './cmap/auth/auth_provider.ts';
 export { GSSAPICanonicalizationValue } from './cmap/auth/gssapi.ts';
 export { AuthMechanism } from './cmap/auth/providers.ts';
 export { Compressor } from './cmap/wire_protocol/compression.ts';
@@ -104,10 +108,12 @@ export { ProfilingLevel } from './operations/set_profiling_level.ts';
 export { ReadConcernLevel } from './read_concern.ts';
 export { ReadPreferenceMode } from './read_preference.ts';
 export { ServerType, TopologyType } from './sdam/common.ts';
+export { ServerMonitoringMode } from './sdam/monitor.ts';
 
 // Helper classes
 export { ReadConcern } from './read_concern.ts';
 export { ReadPreference } from './read_preference.ts';
+export { TopologyRecorder } from './sdam/topology_recorder.ts';
 export { WriteConcern } from './write_concern.ts';
 
 // events
@@ -127,6 +133,7 @@ export {
   ConnectionPoolClosedEvent,
   ConnectionPoolCreatedEvent,
   ConnectionPoolMonitoringEvent,
+  ConnectionPoolReadyEvent,
   ConnectionReadyEvent
 } from './cmap/connection_pool_events.ts';
 export {
@@ -140,6 +147,7 @@ export {
   TopologyDescriptionChangedEvent,
   TopologyOpeningEvent
 } from './sdam/events.ts';
+export { RetryAttemptEvent } from './retry_policy.ts';
 export { SrvPollingEvent } from './sdam/srv_polling.ts';
 
 // type only exports below, these are removed from emitted JS
@@ -184,9 +192,19 @@ export type {
 } from './change_stream.ts';
 export type {
   AuthMechanismProperties,
+  CredentialProvider,
   MongoCredentials,
-  MongoCredentialsOptions
+  MongoCredentialsOptions,
+  ProvidedCredentials
 } from './cmap/auth/mongo_credentials.ts';
+export type {
+  OIDCCallbackContext,
+  OIDCIdPInfo,
+  OIDCRefreshContext,
+  OIDCRefreshFunction,
+  OIDCRequestFunction,
+  OIDCTokenResult
+} from './cmap/auth/mongodb_oidc.ts';
 export type {
   BinMsg,
   GetMore,
@@ -201,7 +219,13 @@ export type {
   Response,
   WriteProtocolMessageType
 } from './cmap/commands.ts';
-export type { LEGAL_TCP_SOCKET_OPTIONS, LEGAL_TLS_SOCKET_OPTIONS, Stream } from './cmap/connect.ts';
+export type { AuthContextOptions } from './cmap/auth/auth_provider.ts';
+export type {
+  HandshakeDocument,
+  LEGAL_TCP_SOCKET_OPTIONS,
+  LEGAL_TLS_SOCKET_OPTIONS,
+  Stream
+} from './cmap/connect.ts';
 export type {
   CommandOptions,
   Connection,
@@ -225,7 +249,11 @@ export type {
   MessageStreamOptions,
   OperationDescription
 } from './cmap/message_stream.ts';
-export type { ConnectionPoolMetrics } from './cmap/metrics.ts';
+export type {
+  ConnectionPoolMetrics,
+  ConnectionPoolStatistics,
+  LatencyHistogram
+} from './cmap/metrics.ts';
 export type { StreamDescription, StreamDescriptionOptions } from './cmap/stream_description.ts';
 export type { CompressorName } from './cmap/wire_protocol/compression.ts';
 export type { CollectionOptions, CollectionPrivate, ModifyResult } from './collection.ts';
@@ -241,6 +269,7 @@ export type { InternalAbstractCursorOptions } from './cursor/abstract_cursor.ts'
 export type { AggregationCursorOptions } from './cursor/aggregation_cursor.ts';
 export type { DbOptions, DbPrivate } from './db.ts';
 export type { AutoEncrypter, AutoEncryptionOptions, AutoEncryptionTlsOptions } from './deps.ts';
+export type { DnsResolver, SrvRecord } from './dns_resolver.ts';
 export type { Encrypter, EncrypterOptions } from './encrypter.ts';
 export type { AnyError, ErrorDescription, MongoNetworkErrorOptions } from './error.ts';
 export type { Explain, ExplainOptions, ExplainVerbosityLike } from './explain.ts';
@@ -274,6 +303,7 @@ export type {
   WithSessionCallback
 } from './mongo_client.ts';
 export type {
+  Abortable,
   CommonEvents,
   EventsDescription,
   GenericListener,
@@ -327,6 +357,24 @@ export type {
   AggregateOptions,
   DB_AGGREGATE_COLLECTION
 } from './operations/aggregate.ts';
+export type {
+  AnyClientBulkWriteModel,
+  ClientBulkWriteBatch,
+  ClientBulkWriteBatchResult,
+  ClientBulkWriteOperation,
+  ClientBulkWriteOptions,
+  ClientBulkWriteResult,
+  ClientDeleteManyModel,
+  ClientDeleteOneModel,
+  ClientDeleteResult,
+  ClientInsertOneModel,
+  ClientInsertOneResult,
+  ClientReplaceOneModel,
+  ClientUpdateManyModel,
+  ClientUpdateOneModel,
+  ClientUpdateResult,
+  ClientWriteError
+} from './operations/client_bulk_write.ts';
 export type {
   CollationOptions,
   CommandOperation,
@@ -337,6 +385,7 @@ export type { IndexInformationOptions } from './operations/common_functions.ts';
 export type { CountOptions } from './operations/count.ts';
 export type { CountDocumentsOptions } from './operations/count_documents.ts';
 export type {
+  ClusteredCollectionOptions,
   CreateCollectionOptions,
   TimeSeriesCollectionOptions
 } from './operations/create_collection.ts';
@@ -374,6 +423,17 @@ export type { ProfilingLevelOptions } from './operations/profiling_level.ts';
 export type { RemoveUserOptions } from './operations/remove_user.ts';
 export type { RenameOptions } from './operations/rename.ts';
 export type { RunCommandOptions } from './operations/run_command.ts';
+export type {
+  CreateSearchIndexesOperation,
+  DropSearchIndexOperation,
+  ListSearchIndexesOptions,
+  SearchIndexDefinition,
+  SearchIndexDescription,
+  UpdateSearchIndexOperation,
+  VectorSearchFilterField,
+  VectorSearchIndexDefinition,
+  VectorSearchVectorField
+} from './operations/search_indexes.ts';
 export type { SetProfilingLevelOptions } from './operations/set_profiling_level.ts';
 export type {
   CollStats,
@@ -396,6 +456,7 @@ export type {
   ReadPreferenceLikeOptions,
   ReadPreferenceOptions
 } from './read_preference.ts';
+export type { RetryContext, RetryPolicy } from './retry_policy.ts';
 export type { ClusterTime, TimerQueue } from './sdam/common.ts';
 export type {
   Monitor,
@@ -412,7 +473,11 @@ export type {
   TagSet,
   TopologyVersion
 } from './sdam/server_description.ts';
-export type { ServerSelector } from './sdam/server_selection.ts';
+export type {
+  ServerSelectionContext,
+  ServerSelectionHook,
+  ServerSelector
+} from './sdam/server_selection.ts';
 export type { SrvPoller, SrvPollerEvents, SrvPollerOptions } from './sdam/srv_polling.ts';
 export type {
   ConnectOptions,
@@ -425,6 +490,7 @@ export type {
   TopologyOptions,
   TopologyPrivate
 } from './sdam/topology.ts';
+export type { TopologyRecorderOptions, TopologyTimelineEntry } from './sdam/topology_recorder.ts';
 export type { TopologyDescription, TopologyDescriptionOptions } from './sdam/topology_description.ts';
 export type {
   ClientSession,
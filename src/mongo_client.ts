@@ -3,24 +3,39 @@ import type { ConnectionOptions as TLSConnectionOptions, TLSSocketOptions } from
 
 import { BSONSerializeOptions, Document, resolveBSONOptions } from './bson.ts';
 import { ChangeStream, ChangeStreamOptions } from './change_stream.ts';
-import type { AuthMechanismProperties, MongoCredentials } from './cmap/auth/mongo_credentials.ts';
+import type {
+  AuthMechanismProperties,
+  CredentialProvider,
+  MongoCredentials
+} from './cmap/auth/mongo_credentials.ts';
 import type { AuthMechanism } from './cmap/auth/providers.ts';
 import type { LEGAL_TCP_SOCKET_OPTIONS, LEGAL_TLS_SOCKET_OPTIONS } from './cmap/connect.ts';
 import type { Connection } from './cmap/connection.ts';
+import type { ConnectionPoolStatistics } from './cmap/metrics.ts';
 import type { CompressorName } from './cmap/wire_protocol/compression.ts';
 import { parseOptions } from './connection_string.ts';
 import type { MONGO_CLIENT_EVENTS } from './constants.ts';
 import { Db, DbOptions } from './db.ts';
+import type { DnsResolver } from './dns_resolver.ts';
 import type { AutoEncrypter, AutoEncryptionOptions } from './deps.ts';
 import type { Encrypter } from './encrypter.ts';
 import { MongoInvalidArgumentError, MongoNotConnectedError } from './error.ts';
 import type { Logger, LoggerLevel } from './logger.ts';
 import { TypedEventEmitter } from './mongo_types.ts';
+import {
+  AnyClientBulkWriteModel,
+  ClientBulkWriteOptions,
+  ClientBulkWriteResult,
+  executeClientBulkWrite
+} from './operations/client_bulk_write.ts';
 import { connect } from './operations/connect.ts';
 import { PromiseProvider } from './promise_provider.ts';
 import type { ReadConcern, ReadConcernLevel, ReadConcernLike } from './read_concern.ts';
 import type { ReadPreference, ReadPreferenceMode } from './read_preference.ts';
+import type { RetryPolicy } from './retry_policy.ts';
+import type { ServerMonitoringMode } from './sdam/monitor.ts';
 import type { TagSet } from './sdam/server_description.ts';
+import type { ServerSelectionHook } from './sdam/server_selection.ts';
 import type { SrvPoller } from './sdam/srv_polling.ts';
 import type { Topology, TopologyEvents } from './sdam/topology.ts';
 import type { ClientSession, ClientSessionOptions } from './sessions.ts';
@@ -123,10 +138,18 @@ export interface MongoClientOptions extends BSONSerializeOptions, SupportedNodeC
   connectTimeoutMS?: number;
   /** The time in milliseconds to attempt a send or receive on a socket before the attempt times out. */
   socketTimeoutMS?: number;
+  /**
+   * The time in milliseconds an operation may take as a whole, covering server selection, connection
+   * checkout, retries and the command round trip. `0` means no limit. Can be overridden by databases,
+   * collections, sessions and individual operations.
+   */
+  timeoutMS?: number;
   /** An array or comma-delimited string of compressors to enable network compression for communication between this client and a mongod/mongos instance. */
   compressors?: CompressorName[] | string;
   /** An integer that specifies the compression level if using zlib for network compression. */
   zlibCompressionLevel?: 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | undefined;
+  /** An integer between 1 and 22 that specifies the compression level if using zstd for network compression. `0` uses the library default. */
+  zstdCompressionLevel?: number;
   /** The maximum number of hosts to connect to when using an srv connection string, a setting of `0` means unlimited hosts */
   srvMaxHosts?: number;
   /**
@@ -137,10 +160,22 @@ export interface MongoClientOptions extends BSONSerializeOptions, SupportedNodeC
    * Querying this DNS URI is expected to respond with SRV records
    */
   srvServiceName?: string;
+  /**
+   * The nameserver to query for the SRV and TXT records of an srv connection string, as `ip`,
+   * `ip:port` or `[ipv6]:port`. Defaults to the nameservers of the system.
+   */
+  dnsNameserver?: string;
+  /**
+   * Performs the SRV and TXT lookups of an srv connection string instead of `Deno.resolveDns`,
+   * e.g. to feed synthetic records to tests. Takes precedence over `dnsNameserver`.
+   */
+  dnsResolver?: DnsResolver;
   /** The maximum number of connections in the connection pool. */
   maxPoolSize?: number;
   /** The minimum number of connections in the connection pool. */
   minPoolSize?: number;
+  /** The maximum number of connections that may be in the process of being established concurrently by the connection pool. */
+  maxConnecting?: number;
   /** The maximum number of milliseconds that a connection can remain idle in the pool before being removed and closed. */
   maxIdleTimeMS?: number;
   /** The maximum time in milliseconds that a thread can wait for a connection to become available. */
@@ -163,20 +198,42 @@ export interface MongoClientOptions extends BSONSerializeOptions, SupportedNodeC
   authMechanism?: AuthMechanism;
   /** Specify properties for the specified authMechanism as a comma-separated list of colon-separated key-value pairs. */
   authMechanismProperties?: AuthMechanismProperties;
+  /**
+   * Called whenever a connection is opened to obtain the username/password or client certificate
+   * to use, overriding the configured ones. See {@link MongoClient.rotateCredentials}.
+   */
+  credentialProvider?: CredentialProvider;
   /** The size (in milliseconds) of the latency window for selecting among multiple suitable MongoDB instances. */
   localThresholdMS?: number;
   /** Specifies how long (in milliseconds) to block for server selection before throwing an exception.  */
   serverSelectionTimeoutMS?: number;
+  /**
+   * Reorders or prunes the servers suitable for an operation, e.g. to prefer servers in the same
+   * availability zone by their tags, or the least loaded ones by their pool statistics.
+   */
+  serverSelectionHook?: ServerSelectionHook;
   /** heartbeatFrequencyMS controls when the driver checks the state of the MongoDB deployment. Specify the interval (in milliseconds) between checks, counted from the end of the previous check until the beginning of the next one. */
   heartbeatFrequencyMS?: number;
   /** Sets the minimum heartbeat frequency. In the event that the driver has to frequently re-check a server's availability, it will wait at least this long since the previous check to avoid wasted effort. */
   minHeartbeatFrequencyMS?: number;
+  /**
+   * Whether servers are monitored by streaming (the default on MongoDB 4.4+) or by polling.
+   * Polling suits environments that reap idle or long-lived connections, such as some load
+   * balancers and FaaS platforms.
+   */
+  serverMonitoringMode?: ServerMonitoringMode;
   /** The name of the application that created this MongoClient instance. MongoDB 3.4 and newer will print this value in the server log upon establishing each connection. It is also recorded in the slow query log and profile collections */
   appName?: string;
   /** Enables retryable reads. */
   retryReads?: boolean;
   /** Enable retryable writes. */
   retryWrites?: boolean;
+  /**
+   * Retries operations failing with a retryable error more than once, with exponential backoff.
+   * Without a policy, retryable reads and writes are retried once, immediately. Every retry emits
+   * a `retryAttempt` event.
+   */
+  retryPolicy?: RetryPolicy;
   /** Allow a driver to force a Single topology type with a connection string containing one host */
   directConnection?: boolean;
   /** Instruct the driver it is connecting to a load balancer fronting a mongos like service */
@@ -606,10 +663,87 @@ export class MongoClient extends TypedEventEmitter<MongoClientEvents> {
     return new ChangeStream<TSchema>(this, pipeline, resolveOptions(this, options));
   }
 
+  /**
+   * Executes inserts, updates, replaces and deletes against any number of collections, with as
+   * few round trips as the server's message size limits allow (requires MongoDB 8.0).
+   *
+   * ```js
+   * await client.bulkWrite([
+   *   { name: 'insertOne', namespace: 'db.users', document: { name: 'ada' } },
+   *   { name: 'updateMany', namespace: 'db.logs', filter: {}, update: { $set: { seen: true } } },
+   *   { name: 'deleteOne', namespace: 'archive.users', filter: { name: 'ada' } }
+   * ]);
+   * ```
+   *
+   * If documents passed to `insertOne` do not contain the **_id** field, one is added to each
+   * of them by the driver, mutating the document, unless `forceServerObjectId` is set.
+   *
+   * @param models - The write operations, each naming its namespace as `<database>.<collection>`
+   * @param options - Optional settings for the command
+   * @param callback - An optional callback, a Promise will be returned if none is provided
+   * @throws MongoClientBulkWriteError if some of the writes failed
+   */
+  bulkWrite(models: AnyClientBulkWriteModel[]): Promise<ClientBulkWriteResult>;
+  bulkWrite(models: AnyClientBulkWriteModel[], callback: Callback<ClientBulkWriteResult>): void;
+  bulkWrite(
+    models: AnyClientBulkWriteModel[],
+    options: ClientBulkWriteOptions
+  ): Promise<ClientBulkWriteResult>;
+  bulkWrite(
+    models: AnyClientBulkWriteModel[],
+    options: ClientBulkWriteOptions,
+    callback: Callback<ClientBulkWriteResult>
+  ): void;
+  bulkWrite(
+    models: AnyClientBulkWriteModel[],
+    options?: ClientBulkWriteOptions | Callback<ClientBulkWriteResult>,
+    callback?: Callback<ClientBulkWriteResult>
+  ): Promise<ClientBulkWriteResult> | void {
+    if (typeof options === 'function') (callback = options), (options = {});
+
+    const resolvedOptions = resolveOptions(this, options);
+    return maybePromise(callback, callback =>
+      executeClientBulkWrite(this, models, resolvedOptions, callback)
+    );
+  }
+
   /** Return the mongo client logger */
   getLogger(): Logger {
     return this.s.logger;
   }
+
+  /**
+   * Retires the connections of every pool so they are replaced with connections using the
+   * credentials currently returned by the `credentialProvider`. This happens gradually: idle
+   * connections are closed once the pool comes across them, connections in use once they are
+   * checked back in, and operations keep running meanwhile.
+   */
+  rotateCredentials(): void {
+    if (this.topology == null) {
+      return;
+    }
+
+    for (const server of this.topology.s.servers.values()) {
+      server.s.pool.rollConnections();
+    }
+  }
+
+  /**
+   * Returns a snapshot of the connection pool of each server the client currently knows about,
+   * keyed by server address. The map is empty while the client is not connected.
+   */
+  getPoolStatistics(): Map<string, ConnectionPoolStatistics> {
+    const statistics = new Map<string, ConnectionPoolStatistics>();
+    if (this.topology == null) {
+      return statistics;
+    }
+
+    for (const [address, server] of this.topology.s.servers) {
+      statistics.set(address, server.s.pool.statistics());
+    }
+
+    return statistics;
+  }
 }
 
 /**
@@ -631,6 +765,7 @@ export interface MongoOptions
         | 'keepAliveInitialDelay'
         | 'localThresholdMS'
         | 'logger'
+        | 'maxConnecting'
         | 'maxIdleTimeMS'
         | 'maxPoolSize'
         | 'minPoolSize'
@@ -642,6 +777,7 @@ export interface MongoOptions
         | 'replicaSet'
         | 'retryReads'
         | 'retryWrites'
+        | 'serverMonitoringMode'
         | 'serverSelectionTimeoutMS'
         | 'socketTimeoutMS'
         | 'srvMaxHosts'
@@ -651,12 +787,18 @@ export interface MongoOptions
         | 'tlsInsecure'
         | 'waitQueueTimeoutMS'
         | 'zlibCompressionLevel'
+        | 'zstdCompressionLevel'
       >
     >,
     SupportedNodeConnectionOptions {
   hosts: HostAddress[];
   srvHost?: string;
   credentials?: MongoCredentials;
+  credentialProvider?: CredentialProvider;
+  serverSelectionHook?: ServerSelectionHook;
+  retryPolicy?: RetryPolicy;
+  dnsNameserver?: string;
+  dnsResolver?: DnsResolver;
   readPreference: ReadPreference;
   readConcern: ReadConcern;
   loadBalanced: boolean;
@@ -670,6 +812,7 @@ export interface MongoOptions
   proxyPort?: number;
   proxyUsername?: string;
   proxyPassword?: string;
+  timeoutMS?: number;
   /** @internal */
   connectionType?: typeof Connection;
 
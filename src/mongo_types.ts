@@ -445,6 +445,12 @@ export class TypedEventEmitter<Events extends EventsDescription> extends EventEm
 /** @public */
 export class CancellationToken extends TypedEventEmitter<{ cancel(): void }> {}
 
+/** @public */
+export interface Abortable {
+  /** Cancels the operation once aborted, failing it with a `MongoAbortError` */
+  signal?: AbortSignal;
+}
+
 /**
  * Helper types for dot-notation filter attributes
  */
@@ -0,0 +1,716 @@
+import { calculateObjectSize, Document, Long } from '../bson.ts';
+import { DocumentSequence } from '../cmap/commands.ts';
+import {
+  AnyError,
+  MongoCompatibilityError,
+  MongoError,
+  MongoInvalidArgumentError,
+  MongoServerError,
+  MongoWriteConcernError
+} from '../error.ts';
+import type { MongoClient, PkFactory } from '../mongo_client.ts';
+import type { Filter, OptionalId, UpdateFilter, WithoutId } from '../mongo_types.ts';
+import type { Server } from '../sdam/server.ts';
+import type { ClientSession } from '../sessions.ts';
+import { formatSort, Sort } from '../sort.ts';
+import { Callback, getTopology, hasAtomicOperators, maxWireVersion, ns } from '../utils.ts';
+import { WriteConcern } from '../write_concern.ts';
+import { CollationOptions, CommandOperation, CommandOperationOptions } from './command.ts';
+import { executeOperation } from './execute_operation.ts';
+import { Aspect, defineAspects, Hint } from './operation.ts';
+
+/** The bulkWrite command was introduced in MongoDB 8.0 */
+const MIN_BULK_WRITE_WIRE_VERSION = 25;
+/** Room left in a message for the command document around the `ops` and `nsInfo` sequences */
+const COMMAND_OVERHEAD_BYTES = 1000;
+const DEFAULT_MAX_BSON_OBJECT_SIZE = 1024 * 1024 * 16;
+const DEFAULT_MAX_MESSAGE_SIZE_BYTES = 48000000;
+const DEFAULT_MAX_WRITE_BATCH_SIZE = 100000;
+
+/** @public */
+export interface ClientBulkWriteOptions extends CommandOperationOptions {
+  /**
+   * If true, the operations are executed in order and execution stops at the first write error,
+   * otherwise all operations are attempted. Defaults to `true`
+   */
+  ordered?: boolean;
+  /** Allow driver to bypass schema validation. */
+  bypassDocumentValidation?: boolean;
+  /** Map of parameter names and values that can be accessed using $$var (requires MongoDB 5.0). */
+  let?: Document;
+  /** Whether to report the result of every single operation, in addition to the totals */
+  verboseResults?: boolean;
+  /** Force server to assign _id values instead of driver. */
+  forceServerObjectId?: boolean;
+}
+
+/** @public */
+export interface ClientInsertOneModel<TSchema extends Document = Document> {
+  name: 'insertOne';
+  /** The namespace to write to, as `<database>.<collection>` */
+  namespace: string;
+  /** The document to insert. An `_id` is generated for it if it has none */
+  document: OptionalId<TSchema>;
+}
+
+/** @public */
+export interface ClientUpdateOneModel<TSchema extends Document = Document> {
+  name: 'updateOne';
+  /** The namespace to write to, as `<database>.<collection>` */
+  namespace: string;
+  /** The filter to limit the updated documents. */
+  filter: Filter<TSchema>;
+  /** A document or pipeline containing update operators. */
+  update: UpdateFilter<TSchema> | UpdateFilter<TSchema>[];
+  /** A set of filters specifying to which array elements an update should apply. */
+  arrayFilters?: Document[];
+  /** Specifies a collation. */
+  collation?: CollationOptions;
+  /** The index to use. If specified, then the query system will only consider plans using the hinted index. */
+  hint?: Hint;
+  /** When true, creates a new document if no document matches the query. */
+  upsert?: boolean;
+  /** Determines which document is updated if the filter matches several. */
+  sort?: Sort;
+}
+
+/** @public */
+export interface ClientUpdateManyModel<TSchema extends Document = Document> {
+  name: 'updateMany';
+  /** The namespace to write to, as `<database>.<collection>` */
+  namespace: string;
+  /** The filter to limit the updated documents. */
+  filter: Filter<TSchema>;
+  /** A document or pipeline containing update operators. */
+  update: UpdateFilter<TSchema> | UpdateFilter<TSchema>[];
+  /** A set of filters specifying to which array elements an update should apply. */
+  arrayFilters?: Document[];
+  /** Specifies a collation. */
+  collation?: CollationOptions;
+  /** The index to use. If specified, then the query system will only consider plans using the hinted index. */
+  hint?: Hint;
+  /** When true, creates a new document if no document matches the query. */
+  upsert?: boolean;
+}
+
+/** @public */
+export interface ClientReplaceOneModel<TSchema extends Document = Document> {
+  name: 'replaceOne';
+  /** The namespace to write to, as `<database>.<collection>` */
+  namespace: string;
+  /** The filter to limit the replaced document. */
+  filter: Filter<TSchema>;
+  /** The document with which to replace the matched document. */
+  replacement: WithoutId<TSchema>;
+  /** Specifies a collation. */
+  collation?: CollationOptions;
+  /** The index to use. If specified, then the query system will only consider plans using the hinted index. */
+  hint?: Hint;
+  /** When true, creates a new document if no document matches the query. */
+  upsert?: boolean;
+  /** Determines which document is replaced if the filter matches several. */
+  sort?: Sort;
+}
+
+/** @public */
+export interface ClientDeleteOneModel<TSchema extends Document = Document> {
+  name: 'deleteOne';
+  /** The namespace to write to, as `<database>.<collection>` */
+  namespace: string;
+  /** The filter to limit the deleted documents. */
+  filter: Filter<TSchema>;
+  /** Specifies a collation. */
+  collation?: CollationOptions;
+  /** The index to use. If specified, then the query system will only consider plans using the hinted index. */
+  hint?: Hint;
+}
+
+/** @public */
+export interface ClientDeleteManyModel<TSchema extends Document = Document> {
+  name: 'deleteMany';
+  /** The namespace to write to, as `<database>.<collection>` */
+  namespace: string;
+  /** The filter to limit the deleted documents. */
+  filter: Filter<TSchema>;
+  /** Specifies a collation. */
+  collation?: CollationOptions;
+  /** The index to use. If specified, then the query system will only consider plans using the hinted index. */
+  hint?: Hint;
+}
+
+/** @public */
+export type AnyClientBulkWriteModel<TSchema extends Document = Document> =
+  | ClientInsertOneModel<TSchema>
+  | ClientUpdateOneModel<TSchema>
+  | ClientUpdateManyModel<TSchema>
+  | ClientReplaceOneModel<TSchema>
+  | ClientDeleteOneModel<TSchema>
+  | ClientDeleteManyModel<TSchema>;
+
+/** @public */
+export interface ClientInsertOneResult {
+  /** The _id of the inserted document */
+  insertedId: unknown;
+}
+
+/** @public */
+export interface ClientUpdateResult {
+  /** The number of documents that matched the filter */
+  matchedCount: number;
+  /** The number of documents that were modified */
+  modifiedCount: number;
+  /** The _id of the upserted document, if an upsert took place */
+  upsertedId?: unknown;
+  /** Whether an upsert took place */
+  didUpsert: boolean;
+}
+
+/** @public */
+export interface ClientDeleteResult {
+  /** The number of documents that were deleted */
+  deletedCount: number;
+}
+
+/** @public */
+export interface ClientBulkWriteResult {
+  /** Indicates whether the writes were acknowledged. If not, all counts are `0` */
+  acknowledged: boolean;
+  insertedCount: number;
+  upsertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  deletedCount: number;
+  /** The results of the successful inserts by model index, only with `verboseResults` */
+  insertResults?: Map<number, ClientInsertOneResult>;
+  /** The results of the successful updates by model index, only with `verboseResults` */
+  updateResults?: Map<number, ClientUpdateResult>;
+  /** The results of the successful deletes by model index, only with `verboseResults` */
+  deleteResults?: Map<number, ClientDeleteResult>;
+}
+
+/** @public */
+export interface ClientWriteError {
+  code: number;
+  message: string;
+  /** The `errInfo` the server reported along with the error */
+  details?: Document;
+}
+
+/**
+ * An error indicating that some of the writes of a `MongoClient.bulkWrite` failed. The writes
+ * that did happen are described by `partialResult`.
+ * @public
+ * @category Error
+ */
+export class MongoClientBulkWriteError extends MongoServerError {
+  /** The error that aborted the bulk write, if it did not run to completion */
+  error?: MongoError;
+  /** The errors of the individual writes, keyed by model index */
+  writeErrors: Map<number, ClientWriteError>;
+  /** The write concern errors, at most one per batch sent to the server */
+  writeConcernErrors: Document[];
+  /** The result of the writes that were executed, absent if none was */
+  partialResult?: ClientBulkWriteResult;
+
+  constructor(
+    message: string,
+    writeErrors: Map<number, ClientWriteError>,
+    writeConcernErrors: Document[],
+    partialResult?: ClientBulkWriteResult,
+    error?: MongoError
+  ) {
+    super({ message });
+    this.writeErrors = writeErrors;
+    this.writeConcernErrors = writeConcernErrors;
+    this.partialResult = partialResult;
+    this.error = error;
+    if (error) {
+      this.code = error.code;
+      for (const label of error.errorLabels) {
+        this.addErrorLabel(label);
+      }
+    }
+  }
+
+  override get name(): string {
+    return 'MongoClientBulkWriteError';
+  }
+}
+
+/** @internal */
+export interface ClientBulkWriteBatch {
+  /** The index of the first model of the batch among all models */
+  offset: number;
+  models: AnyClientBulkWriteModel[];
+  /** The entries of the `ops` document sequence, one per model */
+  ops: Document[];
+  /** The entries of the `nsInfo` document sequence, referenced by index from `ops` */
+  nsInfo: Document[];
+}
+
+/** @internal */
+export interface ClientBulkWriteBatchResult {
+  /** The reply of the bulkWrite command, with the totals of the batch */
+  response: Document;
+  /** The per-operation results of the cursor, only the failed ones unless `verboseResults` */
+  results: Document[];
+  writeConcernError?: Document;
+}
+
+/** @internal */
+export class ClientBulkWriteOperation extends CommandOperation<ClientBulkWriteBatchResult> {
+  override options: ClientBulkWriteOptions;
+  batch: ClientBulkWriteBatch;
+
+  constructor(batch: ClientBulkWriteBatch, options: ClientBulkWriteOptions) {
+    super(undefined, options);
+    this.options = options;
+    this.batch = batch;
+  }
+
+  override get canRetryWrite(): boolean {
+    if (super.canRetryWrite === false) {
+      return false;
+    }
+
+    return this.batch.ops.every(op => op.multi !== true);
+  }
+
+  override execute(
+    server: Server,
+    session: ClientSession | undefined,
+    callback: Callback<ClientBulkWriteBatchResult>
+  ): void {
+    if (maxWireVersion(server) < MIN_BULK_WRITE_WIRE_VERSION) {
+      callback(
+        new MongoCompatibilityError('MongoClient.bulkWrite is only supported on MongoDB 8.0+')
+      );
+      return;
+    }
+
+    const options = this.options;
+    const acknowledged = this.writeConcern?.w !== 0;
+    const command: Document = {
+      bulkWrite: 1,
+      errorsOnly: !(acknowledged && options.verboseResults),
+      ordered: options.ordered ?? true,
+      ops: new DocumentSequence(this.batch.ops),
+      nsInfo: new DocumentSequence(this.batch.nsInfo)
+    };
+
+    if (typeof options.bypassDocumentValidation === 'boolean') {
+      command.bypassDocumentValidation = options.bypassDocumentValidation;
+    }
+
+    if (options.let) {
+      command.let = options.let;
+    }
+
+    super.executeCommand(server, session, command, (error, response) => {
+      let writeConcernError: Document | undefined;
+      if (error instanceof MongoWriteConcernError && error.result?.cursor) {
+        // the writes themselves were executed, their results are still to be read
+        writeConcernError = {
+          code: error.code,
+          message: error.message,
+          details: error.errInfo
+        };
+        response = error.result;
+      } else if (error) {
+        return callback(error);
+      }
+
+      if (!response?.cursor) {
+        return callback(undefined, { response: response ?? {}, results: [], writeConcernError });
+      }
+
+      const results: Document[] = [...response.cursor.firstBatch];
+      const cursorNamespace = ns(response.cursor.ns);
+      const getMore = (cursorId: Long | number) => {
+        const id = typeof cursorId === 'number' ? Long.fromNumber(cursorId) : cursorId;
+        if (id.isZero()) {
+          return callback(undefined, { response, results, writeConcernError });
+        }
+
+        server.getMore(
+          cursorNamespace,
+          id,
+          { ...this.bsonOptions, session, timeoutContext: this.timeoutContext },
+          (error, reply) => {
+            if (error || !reply) return callback(error);
+            results.push(...reply.cursor.nextBatch);
+            getMore(reply.cursor.id);
+          }
+        );
+      };
+
+      getMore(response.cursor.id);
+    });
+  }
+}
+
+defineAspects(ClientBulkWriteOperation, [
+  Aspect.RETRYABLE,
+  Aspect.WRITE_OPERATION,
+  Aspect.SKIP_COLLATION
+]);
+
+/**
+ * Executes `models` in as few bulkWrite commands as the server's `maxMessageSizeBytes` and
+ * `maxWriteBatchSize` allow, one after the other.
+ * @internal
+ */
+export function executeClientBulkWrite(
+  client: MongoClient,
+  models: AnyClientBulkWriteModel[],
+  options: ClientBulkWriteOptions,
+  callback: Callback<ClientBulkWriteResult>
+): void {
+  const ordered = options.ordered ?? true;
+  const acknowledged = WriteConcern.fromOptions(options)?.w !== 0;
+  const verbose = acknowledged && !!options.verboseResults;
+
+  let batches: ClientBulkWriteBatch[];
+  try {
+    if (!Array.isArray(models) || models.length === 0) {
+      throw new MongoInvalidArgumentError('MongoClient.bulkWrite requires at least one model');
+    }
+
+    if (!acknowledged && ordered) {
+      throw new MongoInvalidArgumentError(
+        'Ordered bulk writes are not supported with an unacknowledged write concern'
+      );
+    }
+
+    if (!acknowledged && options.verboseResults) {
+      throw new MongoInvalidArgumentError(
+        'Verbose results are not available with an unacknowledged write concern'
+      );
+    }
+
+    const hello = getTopology(client).lastHello();
+    const { pkFactory, forceServerObjectId } = client.options;
+    batches = splitIntoBatches(models, {
+      maxBsonObjectSize: hello.maxBsonObjectSize || DEFAULT_MAX_BSON_OBJECT_SIZE,
+      maxMessageSizeBytes: hello.maxMessageSizeBytes || DEFAULT_MAX_MESSAGE_SIZE_BYTES,
+      maxWriteBatchSize: hello.maxWriteBatchSize || DEFAULT_MAX_WRITE_BATCH_SIZE,
+      createPk:
+        options.forceServerObjectId ?? forceServerObjectId ? undefined : () => pkFactory.createPk()
+    });
+  } catch (error) {
+    return callback(error);
+  }
+
+  const result: ClientBulkWriteResult = {
+    acknowledged,
+    insertedCount: 0,
+    upsertedCount: 0,
+    matchedCount: 0,
+    modifiedCount: 0,
+    deletedCount: 0
+  };
+  if (verbose) {
+    result.insertResults = new Map();
+    result.updateResults = new Map();
+    result.deleteResults = new Map();
+  }
+
+  const writeErrors = new Map<number, ClientWriteError>();
+  const writeConcernErrors: Document[] = [];
+  let executedBatches = 0;
+
+  const finish = (error?: AnyError) => {
+    const partialResult = executedBatches > 0 ? result : undefined;
+    if (error) {
+      if (!partialResult && writeConcernErrors.length === 0) {
+        return callback(error);
+      }
+
+      return callback(
+        new MongoClientBulkWriteError(
+          error.message,
+          writeErrors,
+          writeConcernErrors,
+          partialResult,
+          error instanceof MongoError ? error : undefined
+        )
+      );
+    }
+
+    if (writeErrors.size > 0 || writeConcernErrors.length > 0) {
+      return callback(
+        new MongoClientBulkWriteError(
+          writeErrors.size > 0
+            ? `${writeErrors.size} of the bulk write operations failed`
+            : 'The bulk write could not satisfy its write concern',
+          writeErrors,
+          writeConcernErrors,
+          partialResult
+        )
+      );
+    }
+
+    callback(undefined, result);
+  };
+
+  const executeBatch = (index: number) => {
+    if (index === batches.length || (ordered && writeErrors.size > 0)) {
+      return finish();
+    }
+
+    const batch = batches[index];
+    executeOperation(client, new ClientBulkWriteOperation(batch, options), (error, batchResult) => {
+      if (error || !batchResult) {
+        return finish(error);
+      }
+
+      executedBatches += 1;
+      mergeBatchResult(result, batch, batchResult, writeErrors);
+      if (batchResult.writeConcernError) {
+        writeConcernErrors.push(batchResult.writeConcernError);
+      }
+
+      executeBatch(index + 1);
+    });
+  };
+
+  executeBatch(0);
+}
+
+/** @internal */
+interface BatchLimits {
+  maxBsonObjectSize: number;
+  maxMessageSizeBytes: number;
+  maxWriteBatchSize: number;
+  /** Generates the _id of inserted documents that have none, unless the server should */
+  createPk?: PkFactory['createPk'];
+}
+
+function splitIntoBatches(
+  models: AnyClientBulkWriteModel[],
+  limits: BatchLimits
+): ClientBulkWriteBatch[] {
+  const maxBatchSizeBytes = limits.maxMessageSizeBytes - COMMAND_OVERHEAD_BYTES;
+  const batches: ClientBulkWriteBatch[] = [];
+
+  let batch: ClientBulkWriteBatch = { offset: 0, models: [], ops: [], nsInfo: [] };
+  let namespaces = new Map<string, number>();
+  let batchSizeBytes = 0;
+
+  models.forEach((model, index) => {
+    // the namespace index is serialized as an int32 whatever its value, so the size of the
+    // operation does not depend on the batch it ends up in
+    const op = makeOperation(model, 0, limits.createPk);
+    const opSizeBytes = calculateObjectSize(op, { ignoreUndefined: false });
+    if (opSizeBytes > limits.maxBsonObjectSize) {
+      throw new MongoInvalidArgumentError(
+        `Operation at index ${index} exceeds the maximum BSON object size of ${limits.maxBsonObjectSize} bytes`
+      );
+    }
+
+    const nsInfoSizeBytes = calculateObjectSize({ ns: model.namespace });
+    if (opSizeBytes + nsInfoSizeBytes > maxBatchSizeBytes) {
+      throw new MongoInvalidArgumentError(
+        `Operation at index ${index} exceeds the maximum message size of ${limits.maxMessageSizeBytes} bytes`
+      );
+    }
+
+    const sizeBytes = opSizeBytes + (namespaces.has(model.namespace) ? 0 : nsInfoSizeBytes);
+    if (
+      batch.ops.length === limits.maxWriteBatchSize ||
+      batchSizeBytes + sizeBytes > maxBatchSizeBytes
+    ) {
+      batches.push(batch);
+      batch = { offset: index, models: [], ops: [], nsInfo: [] };
+      namespaces = new Map();
+      batchSizeBytes = 0;
+    }
+
+    let nsIndex = namespaces.get(model.namespace);
+    if (nsIndex == null) {
+      nsIndex = batch.nsInfo.length;
+      namespaces.set(model.namespace, nsIndex);
+      batch.nsInfo.push({ ns: model.namespace });
+      batchSizeBytes += nsInfoSizeBytes;
+    }
+
+    // the first key of an operation names its type and holds the namespace index
+    op[Object.keys(op)[0]] = nsIndex;
+    batch.models.push(model);
+    batch.ops.push(op);
+    batchSizeBytes += opSizeBytes;
+  });
+
+  batches.push(batch);
+  return batches;
+}
+
+/** Translates `model` into an entry of the `ops` sequence, the first key naming its type */
+function makeOperation(
+  model: AnyClientBulkWriteModel,
+  nsIndex: number,
+  createPk?: PkFactory['createPk']
+): Document {
+  if (model == null || typeof model !== 'object') {
+    throw new MongoInvalidArgumentError('Each bulk write model must be an object');
+  }
+
+  if (typeof model.namespace !== 'string' || !model.namespace.includes('.')) {
+    throw new MongoInvalidArgumentError(
+      `Model "${model.name}" requires a namespace of the form <database>.<collection>`
+    );
+  }
+
+  switch (model.name) {
+    case 'insertOne': {
+      if (model.document == null || typeof model.document !== 'object') {
+        throw new MongoInvalidArgumentError('Document must be a valid JavaScript object');
+      }
+
+      if (model.document._id == null && createPk) {
+        model.document._id = createPk();
+      }
+
+      return { insert: nsIndex, document: model.document };
+    }
+
+    case 'updateOne':
+    case 'updateMany': {
+      if (model.update == null || typeof model.update !== 'object') {
+        throw new MongoInvalidArgumentError('Document must be a valid JavaScript object');
+      }
+
+      if (!hasAtomicOperators(model.update)) {
+        throw new MongoInvalidArgumentError('Update document requires atomic operators');
+      }
+
+      const op = makeUpdate(nsIndex, model, model.update, model.name === 'updateMany');
+      if (model.arrayFilters) {
+        op.arrayFilters = model.arrayFilters;
+      }
+
+      return op;
+    }
+
+    case 'replaceOne': {
+      if (model.replacement == null || typeof model.replacement !== 'object') {
+        throw new MongoInvalidArgumentError('Document must be a valid JavaScript object');
+      }
+
+      if (hasAtomicOperators(model.replacement)) {
+        throw new MongoInvalidArgumentError(
+          'Replacement document must not contain atomic operators'
+        );
+      }
+
+      return makeUpdate(nsIndex, model, model.replacement, false);
+    }
+
+    case 'deleteOne':
+    case 'deleteMany': {
+      const op: Document = {
+        delete: nsIndex,
+        filter: validateFilter(model.filter),
+        multi: model.name === 'deleteMany'
+      };
+      if (model.hint) {
+        op.hint = model.hint;
+      }
+
+      if (model.collation) {
+        op.collation = model.collation;
+      }
+
+      return op;
+    }
+
+    default:
+      throw new MongoInvalidArgumentError(
+        `Invalid bulk write model name "${(model as { name?: unknown }).name}"`
+      );
+  }
+}
+
+function makeUpdate(
+  nsIndex: number,
+  model: ClientUpdateOneModel | ClientUpdateManyModel | ClientReplaceOneModel,
+  updateMods: Document,
+  multi: boolean
+): Document {
+  const op: Document = {
+    update: nsIndex,
+    filter: validateFilter(model.filter),
+    updateMods,
+    multi
+  };
+
+  if (typeof model.upsert === 'boolean') {
+    op.upsert = model.upsert;
+  }
+
+  if (model.hint) {
+    op.hint = model.hint;
+  }
+
+  if (model.collation) {
+    op.collation = model.collation;
+  }
+
+  if ('sort' in model && model.sort) {
+    op.sort = formatSort(model.sort);
+  }
+
+  return op;
+}
+
+function validateFilter(filter: Document): Document {
+  if (filter == null || typeof filter !== 'object') {
+    throw new MongoInvalidArgumentError('Selector must be a valid JavaScript object');
+  }
+
+  return filter;
+}
+
+function mergeBatchResult(
+  result: ClientBulkWriteResult,
+  batch: ClientBulkWriteBatch,
+  { response, results }: ClientBulkWriteBatchResult,
+  writeErrors: Map<number, ClientWriteError>
+): void {
+  result.insertedCount += response.nInserted ?? 0;
+  result.upsertedCount += response.nUpserted ?? 0;
+  result.matchedCount += response.nMatched ?? 0;
+  result.modifiedCount += response.nModified ?? 0;
+  result.deletedCount += response.nDeleted ?? 0;
+
+  for (const entry of results) {
+    const index = batch.offset + entry.idx;
+    if (entry.ok !== 1) {
+      writeErrors.set(index, { code: entry.code, message: entry.errmsg, details: entry.errInfo });
+      continue;
+    }
+
+    const model = batch.models[entry.idx];
+    switch (model.name) {
+      case 'insertOne':
+        result.insertResults?.set(index, { insertedId: model.document._id });
+        break;
+      case 'updateOne':
+      case 'updateMany':
+      case 'replaceOne': {
+        const didUpsert = entry.upserted != null;
+        result.updateResults?.set(index, {
+          matchedCount: didUpsert ? 0 : entry.n,
+          modifiedCount: entry.nModified ?? 0,
+          upsertedId: entry.upserted?._id,
+          didUpsert
+        });
+        break;
+      }
+      case 'deleteOne':
+      case 'deleteMany':
+        result.deleteResults?.set(index, { deletedCount: entry.n });
+        break;
+    }
+  }
+}
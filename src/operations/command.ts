@@ -19,6 +19,9 @@ import type { ReadConcernLike } from './../read_concern.ts';
 import { AbstractOperation, Aspect, OperationOptions } from './operation.ts';
 
 const SUPPORTS_WRITE_CONCERN_AND_COLLATION = 5;
+/** MongoDB 4.4 accepts a comment of any BSON type on every command */
+const SUPPORTS_COMMENT_ON_ALL_COMMANDS = 9;
+const SUPPORTS_LET = 13;
 
 /** @public */
 export interface CollationOptions {
@@ -71,6 +74,7 @@ export interface OperationParent {
   readPreference?: ReadPreference;
   logger?: Logger;
   bsonOptions?: BSONSerializeOptions;
+  timeoutMS?: number;
 }
 
 /** @internal */
@@ -138,7 +142,8 @@ export abstract class CommandOperation<T> extends AbstractOperation<T> {
       ...this.options,
       ...this.bsonOptions,
       readPreference: this.readPreference,
-      session
+      session,
+      timeoutContext: this.timeoutContext
     };
 
     const serverWireVersion = maxWireVersion(server);
@@ -161,6 +166,15 @@ export abstract class CommandOperation<T> extends AbstractOperation<T> {
       return;
     }
 
+    if (cmd.let != null && serverWireVersion < SUPPORTS_LET) {
+      callback(
+        new MongoCompatibilityError(
+          `Server ${server.name}, which reports wire version ${serverWireVersion}, does not support let`
+        )
+      );
+      return;
+    }
+
     if (this.writeConcern && this.hasAspect(Aspect.WRITE_OPERATION) && !inTransaction) {
       Object.assign(cmd, { writeConcern: this.writeConcern });
     }
@@ -179,6 +193,15 @@ export abstract class CommandOperation<T> extends AbstractOperation<T> {
       cmd.maxTimeMS = options.maxTimeMS;
     }
 
+    // commands that take a comment on older servers already set it themselves
+    if (
+      options.comment !== undefined &&
+      cmd.comment === undefined &&
+      serverWireVersion >= SUPPORTS_COMMENT_ON_ALL_COMMANDS
+    ) {
+      cmd.comment = options.comment;
+    }
+
     if (this.hasAspect(Aspect.EXPLAINABLE) && this.explain) {
       if (serverWireVersion < 6 && cmd.aggregate) {
         // Prior to 3.6, with aggregate, verbosity is ignored, and we must pass in "explain: true"
@@ -1,13 +1,25 @@
 import type { Document } from '../bson.ts';
 import { Collection } from '../collection.ts';
 import type { Db } from '../db.ts';
+import { MongoCompatibilityError, MongoError, MongoInvalidArgumentError } from '../error.ts';
 import type { PkFactory } from '../mongo_client.ts';
 import type { Server } from '../sdam/server.ts';
 import type { ClientSession } from '../sessions.ts';
-import type { Callback } from '../utils.ts';
+import { Callback, maxWireVersion } from '../utils.ts';
 import { CommandOperation, CommandOperationOptions } from './command.ts';
+import { CreateIndexesOperation } from './indexes.ts';
 import { Aspect, defineAspects } from './operation.ts';
 
+/** The wire version each option requires, with the MongoDB version introducing it */
+const MIN_WIRE_VERSIONS: [option: string, wireVersion: number, serverVersion: string][] = [
+  ['timeseries', 13, '5.0'],
+  ['clusteredIndex', 16, '5.3'],
+  ['changeStreamPreAndPostImages', 17, '6.0'],
+  ['encryptedFields', 21, '7.0']
+];
+/** Custom bucketing parameters of time series collections require MongoDB 6.3 */
+const SUPPORTS_CUSTOM_BUCKETING = 20;
+
 const ILLEGAL_COMMAND_FIELDS = new Set([
   'w',
   'wtimeout',
@@ -28,7 +40,10 @@ const ILLEGAL_COMMAND_FIELDS = new Set([
   'bsonRegExp',
   'serializeFunctions',
   'ignoreUndefined',
-  'enableUtf8Validation'
+  'enableUtf8Validation',
+  'timeoutMS',
+  'signal',
+  'retryPolicy'
 ]);
 
 /** @public
@@ -39,6 +54,29 @@ export interface TimeSeriesCollectionOptions extends Document {
   timeField: string;
   metaField?: string;
   granularity?: 'seconds' | 'minutes' | 'hours' | string;
+  /**
+   * The maximum time span between measurements of a bucket, instead of a `granularity`
+   * (requires MongoDB 6.3). Must equal `bucketRoundingSeconds`
+   */
+  bucketMaxSpanSeconds?: number;
+  /**
+   * The number of seconds the minimum time of a new bucket is rounded down to, instead of a
+   * `granularity` (requires MongoDB 6.3). Must equal `bucketMaxSpanSeconds`
+   */
+  bucketRoundingSeconds?: number;
+}
+
+/** @public
+ * Configuration options for clustered collections
+ * @see https://www.mongodb.com/docs/manual/core/clustered-collections/
+ */
+export interface ClusteredCollectionOptions extends Document {
+  /** The name of the clustered index. Defaults to `_id_` */
+  name?: string;
+  /** The key of the clustered index, which must be `{ _id: 1 }` */
+  key: Document;
+  /** Must be `true`, the documents of a clustered collection have unique keys */
+  unique: boolean;
 }
 
 /** @public */
@@ -73,8 +111,25 @@ export interface CreateCollectionOptions extends CommandOperationOptions {
   pkFactory?: PkFactory;
   /** A document specifying configuration options for timeseries collections. */
   timeseries?: TimeSeriesCollectionOptions;
-  /** The number of seconds after which a document in a timeseries collection expires. */
+  /**
+   * The number of seconds after which a document in a timeseries or clustered collection
+   * expires. Only valid along with `timeseries` or `clusteredIndex`.
+   */
   expireAfterSeconds?: number;
+  /** Stores the documents ordered by the clustered index key (requires MongoDB 5.3). */
+  clusteredIndex?: ClusteredCollectionOptions;
+  /**
+   * Whether change streams on the collection can report the document as it was before and after
+   * a change, see `fullDocumentBeforeChange` (requires MongoDB 6.0).
+   */
+  changeStreamPreAndPostImages?: { enabled: boolean };
+  /**
+   * The encrypted fields of a Queryable Encryption collection (requires MongoDB 7.0). The state
+   * collections `enxcol_.<name>.esc` and `enxcol_.<name>.ecoc` are created along with the
+   * collection. Defaults to the entry of the collection in the `encryptedFieldsMap` of the
+   * client's `autoEncryption` options.
+   */
+  encryptedFields?: Document;
 }
 
 /** @internal */
@@ -100,6 +155,15 @@ export class CreateCollectionOperation extends CommandOperation<Collection> {
     const name = this.name;
     const options = this.options;
 
+    const encryptedFields: Document | undefined =
+      options.encryptedFields ??
+      db.s.client.options.autoEncryption?.encryptedFieldsMap?.[`${db.databaseName}.${name}`];
+
+    const error = validateCreateOptions(server, { ...options, encryptedFields });
+    if (error) {
+      return callback(error);
+    }
+
     const done: Callback = err => {
       if (err) {
         return callback(err);
@@ -119,8 +183,82 @@ export class CreateCollectionOperation extends CommandOperation<Collection> {
       }
     }
 
-    // otherwise just execute the command
-    super.executeCommand(server, session, cmd, done);
+    if (!encryptedFields) {
+      return super.executeCommand(server, session, cmd, done);
+    }
+
+    cmd.encryptedFields = encryptedFields;
+    const stateCollections: string[] = [
+      encryptedFields.escCollection ?? `enxcol_.${name}.esc`,
+      encryptedFields.ecocCollection ?? `enxcol_.${name}.ecoc`
+    ];
+
+    // the state collections come first, so the data collection never exists without them
+    const createStateCollection = (index: number) => {
+      if (index === stateCollections.length) {
+        return super.executeCommand(server, session, cmd, err => {
+          if (err) return callback(err);
+          this.createSafeContentIndex(server, session, done);
+        });
+      }
+
+      const operation = new CreateCollectionOperation(db, stateCollections[index], {
+        clusteredIndex: { key: { _id: 1 }, unique: true }
+      });
+      operation.timeoutContext = this.timeoutContext;
+      operation.execute(server, session, err => {
+        if (err) return callback(err);
+        createStateCollection(index + 1);
+      });
+    };
+
+    createStateCollection(0);
+  }
+
+  /** Queryable Encryption looks up documents by the tags in their `__safeContent__` field */
+  createSafeContentIndex(
+    server: Server,
+    session: ClientSession | undefined,
+    callback: Callback
+  ): void {
+    const operation = new CreateIndexesOperation(this.db, this.name, [
+      { key: { __safeContent__: 1 } }
+    ]);
+    operation.timeoutContext = this.timeoutContext;
+    operation.execute(server, session, callback);
+  }
+}
+
+function validateCreateOptions(
+  server: Server,
+  options: CreateCollectionOptions
+): MongoError | undefined {
+  if (options.expireAfterSeconds != null && !options.timeseries && !options.clusteredIndex) {
+    return new MongoInvalidArgumentError(
+      'Option "expireAfterSeconds" requires the "timeseries" or "clusteredIndex" option'
+    );
+  }
+
+  const { bucketMaxSpanSeconds, bucketRoundingSeconds } = options.timeseries ?? {};
+  if ((bucketMaxSpanSeconds == null) !== (bucketRoundingSeconds == null)) {
+    return new MongoInvalidArgumentError(
+      'Options "bucketMaxSpanSeconds" and "bucketRoundingSeconds" must be set together'
+    );
+  }
+
+  const wireVersion = maxWireVersion(server);
+  for (const [option, minWireVersion, serverVersion] of MIN_WIRE_VERSIONS) {
+    if ((options as Document)[option] != null && wireVersion < minWireVersion) {
+      return new MongoCompatibilityError(
+        `Option "${option}" is only supported on MongoDB ${serverVersion}+`
+      );
+    }
+  }
+
+  if (bucketMaxSpanSeconds != null && wireVersion < SUPPORTS_CUSTOM_BUCKETING) {
+    return new MongoCompatibilityError(
+      'Options "bucketMaxSpanSeconds" and "bucketRoundingSeconds" are only supported on MongoDB 6.3+'
+    );
   }
 }
 
@@ -1,5 +1,6 @@
 import type { Document } from '../bson.ts';
 import type { Collection } from '../collection.ts';
+import { DocumentSequence } from '../cmap/commands.ts';
 import { MongoCompatibilityError, MongoServerError } from '../error.ts';
 import type { Server } from '../sdam/server.ts';
 import type { ClientSession } from '../sessions.ts';
@@ -68,7 +69,8 @@ export class DeleteOperation extends CommandOperation<Document> {
     const ordered = typeof options.ordered === 'boolean' ? options.ordered : true;
     const command: Document = {
       delete: this.ns.collection,
-      deletes: this.statements,
+      // explain wraps the command in another document, which can't carry a sequence
+      deletes: this.explain ? this.statements : new DocumentSequence(this.statements),
       ordered
     };
 
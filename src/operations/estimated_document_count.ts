@@ -1,9 +1,8 @@
 import type { Document } from '../bson.ts';
 import type { Collection } from '../collection.ts';
-import type { MongoServerError } from '../error.ts';
 import type { Server } from '../sdam/server.ts';
 import type { ClientSession } from '../sessions.ts';
-import { Callback, maxWireVersion } from '../utils.ts';
+import type { Callback } from '../utils.ts';
 import { CommandOperation, CommandOperationOptions } from './command.ts';
 import { Aspect, defineAspects } from './operation.ts';
 
@@ -33,32 +32,7 @@ export class EstimatedDocumentCountOperation extends CommandOperation<number> {
     session: ClientSession | undefined,
     callback: Callback<number>
   ): void {
-    if (maxWireVersion(server) < 12) {
-      return this.executeLegacy(server, session, callback);
-    }
-    const pipeline = [{ $collStats: { count: {} } }, { $group: { _id: 1, n: { $sum: '$count' } } }];
-
-    const cmd: Document = { aggregate: this.collectionName, pipeline, cursor: {} };
-
-    if (typeof this.options.maxTimeMS === 'number') {
-      cmd.maxTimeMS = this.options.maxTimeMS;
-    }
-
-    super.executeCommand(server, session, cmd, (err, response) => {
-      if (err && (err as MongoServerError).code !== 26) {
-        callback(err);
-        return;
-      }
-
-      callback(undefined, response?.cursor?.firstBatch[0]?.n || 0);
-    });
-  }
-
-  executeLegacy(
-    server: Server,
-    session: ClientSession | undefined,
-    callback: Callback<number>
-  ): void {
+    // unlike `$collStats`, `count` is part of the Stable API and works on views and time series
     const cmd: Document = { count: this.collectionName };
 
     if (typeof this.options.maxTimeMS === 'number') {
@@ -76,8 +50,4 @@ export class EstimatedDocumentCountOperation extends CommandOperation<number> {
   }
 }
 
-defineAspects(EstimatedDocumentCountOperation, [
-  Aspect.READ_OPERATION,
-  Aspect.RETRYABLE,
-  Aspect.CURSOR_CREATING
-]);
+defineAspects(EstimatedDocumentCountOperation, [Aspect.READ_OPERATION, Aspect.RETRYABLE]);
@@ -1,7 +1,9 @@
 import type { Document } from '../bson.ts';
+import { RETRY_ATTEMPT } from '../constants.ts';
 import {
   isRetryableReadError,
   isRetryableWriteError,
+  MongoAbortError,
   MongoCompatibilityError,
   MONGODB_ERROR_CODES,
   MongoError,
@@ -9,22 +11,34 @@ import {
   MongoNetworkError,
   MongoRuntimeError,
   MongoServerError,
+  MongoServerSelectionError,
   MongoTransactionError,
   MongoUnexpectedServerResponseError
 } from '../error.ts';
 import { ReadPreference } from '../read_preference.ts';
+import {
+  ResolvedRetryPolicy,
+  resolveRetryPolicy,
+  RetryAttemptEvent,
+  retryDelayMS
+} from '../retry_policy.ts';
 import type { Server } from '../sdam/server.ts';
+import type { ServerDescription } from '../sdam/server_description.ts';
 import {
   sameServerSelector,
   secondaryWritableServerSelector,
   ServerSelector
 } from '../sdam/server_selection.ts';
-import type { Topology } from '../sdam/topology.ts';
+import type { SelectServerOptions, Topology } from '../sdam/topology.ts';
 import type { ClientSession } from '../sessions.ts';
+import { TimeoutContext } from '../timeout.ts';
 import {
+  addAbortListener,
+  calculateDurationInMs,
   Callback,
   getTopology,
   maybePromise,
+  now,
   supportsRetryableWrites,
   TopologyProvider
 } from '../utils.ts';
@@ -93,6 +107,11 @@ export function executeOperation<
   }
 
   return maybePromise(callback, callback => {
+    const signal = operation.options.signal;
+    if (signal?.aborted) {
+      return callback(new MongoAbortError(signal.reason));
+    }
+
     let topology: Topology;
     try {
       // TODO(NODE-4151): Use skipPingOnConnect and call connect here to make client.connect optional
@@ -127,6 +146,10 @@ export function executeOperation<
       return callback(new MongoCompatibilityError('Current topology does not support sessions'));
     }
 
+    const timeoutMS =
+      operation.options.timeoutMS ?? session?.defaultTimeoutMS ?? topology.s.options.timeoutMS;
+    operation.timeoutContext = timeoutMS != null ? new TimeoutContext(timeoutMS) : undefined;
+
     try {
       executeWithServerSelection<TResult>(topology, session, operation, (error, result) => {
         if (session?.owner != null && session.owner === owner) {
@@ -165,6 +188,15 @@ function executeWithServerSelection<TResult>(
     session.unpin();
   }
 
+  let retryPolicy: ResolvedRetryPolicy;
+  try {
+    retryPolicy = resolveRetryPolicy(
+      operation.options.retryPolicy ?? topology.s.options.retryPolicy
+    );
+  } catch (error) {
+    return callback(error);
+  }
+
   let selector: ReadPreference | ServerSelector;
 
   if (operation.hasAspect(Aspect.CURSOR_ITERATING)) {
@@ -180,11 +212,41 @@ function executeWithServerSelection<TResult>(
     selector = readPreference;
   }
 
-  const serverSelectionOptions = { session };
-  function retryOperation(originalError: MongoError) {
-    const isWriteOperation = operation.hasAspect(Aspect.WRITE_OPERATION);
-    const isReadOperation = operation.hasAspect(Aspect.READ_OPERATION);
+  const timeoutContext = operation.timeoutContext;
+  function selectServer(callback: Callback<Server>, deprioritizedServers?: ServerDescription[]) {
+    const serverSelectionOptions: SelectServerOptions = {
+      session,
+      signal: operation.options.signal,
+      skipSelectionHook: operation.hasAspect(Aspect.CURSOR_ITERATING),
+      deprioritizedServers
+    };
+    if (timeoutContext) {
+      if (timeoutContext.expired) {
+        return callback(timeoutContext.error('server selection'));
+      }
+
+      serverSelectionOptions.serverSelectionTimeoutMS = timeoutContext.limit(
+        topology.s.serverSelectionTimeoutMS
+      );
+    }
+
+    topology.selectServer(selector, serverSelectionOptions, (error, server) => {
+      if (error instanceof MongoServerSelectionError && timeoutContext?.expired) {
+        return callback(timeoutContext.error('server selection'));
+      }
+
+      callback(error, server);
+    });
+  }
+
+  const isWriteOperation = operation.hasAspect(Aspect.WRITE_OPERATION);
+  const isReadOperation = operation.hasAspect(Aspect.READ_OPERATION);
+  const started = now();
+  // servers that failed an attempt, avoided by later attempts where possible
+  const failedServers: ServerDescription[] = [];
+  let attempt = 1;
 
+  function retryOperation(originalError: MongoError, failedServer: Server) {
     if (isWriteOperation && originalError.code === MMAPv1_RETRY_WRITES_ERROR_CODE) {
       return callback(
         new MongoServerError({
@@ -195,11 +257,33 @@ function executeWithServerSelection<TResult>(
       );
     }
 
-    if (isWriteOperation && !isRetryableWriteError(originalError)) {
+    const retryable =
+      (!isWriteOperation || isRetryableWriteError(originalError)) &&
+      (!isReadOperation || isRetryableReadError(originalError));
+
+    let shouldRetry: boolean;
+    try {
+      shouldRetry =
+        attempt < retryPolicy.maxAttempts &&
+        retryPolicy.shouldRetry(originalError, { attempt, isWrite: isWriteOperation, retryable });
+    } catch (error) {
+      return callback(error);
+    }
+
+    if (!shouldRetry) {
+      return callback(originalError);
+    }
+
+    const delayMS = retryDelayMS(retryPolicy, attempt);
+    if (
+      retryPolicy.maxRetryTimeMS > 0 &&
+      calculateDurationInMs(started) + delayMS > retryPolicy.maxRetryTimeMS
+    ) {
       return callback(originalError);
     }
 
-    if (isReadOperation && !isRetryableReadError(originalError)) {
+    if (delayMS > 0 && timeoutContext && timeoutContext.remainingMS <= delayMS) {
+      // waiting would exhaust timeoutMS, so fail with the actual cause instead
       return callback(originalError);
     }
 
@@ -215,23 +299,70 @@ function executeWithServerSelection<TResult>(
       session.unpin({ force: true, forceClear: true });
     }
 
-    // select a new server, and attempt to retry the operation
-    topology.selectServer(selector, serverSelectionOptions, (error?: Error, server?: Server) => {
-      if (!error && isWriteOperation && !supportsRetryableWrites(server)) {
-        return callback(
-          new MongoUnexpectedServerResponseError(
-            'Selected server does not support retryable writes'
-          )
-        );
-      }
+    attempt++;
+    failedServers.push(failedServer.description);
+    topology.emit(
+      RETRY_ATTEMPT,
+      new RetryAttemptEvent(
+        topology.s.id,
+        failedServer.description.address,
+        attempt,
+        delayMS,
+        originalError
+      )
+    );
+
+    // select a new server, preferably another mongos, and attempt to retry the operation
+    const retry = () =>
+      selectServer(
+        (error?: Error, server?: Server) => {
+          if (!error && isWriteOperation && !supportsRetryableWrites(server)) {
+            return callback(
+              new MongoUnexpectedServerResponseError(
+                'Selected server does not support retryable writes'
+              )
+            );
+          }
 
-      if (error || !server) {
-        return callback(
-          error ?? new MongoUnexpectedServerResponseError('Server selection failed without error')
-        );
+          if (error || !server) {
+            return callback(
+              error ??
+                new MongoUnexpectedServerResponseError('Server selection failed without error')
+            );
+          }
+
+          executeRetryable(server);
+        },
+        failedServers
+      );
+
+    if (delayMS > 0) {
+      const signal = operation.options.signal;
+      if (signal?.aborted) {
+        return callback(new MongoAbortError(signal.reason));
       }
 
-      operation.execute(server, session, callback);
+      const timer = setTimeout(() => {
+        removeAbortListener();
+        retry();
+      }, delayMS);
+      const removeAbortListener = addAbortListener(signal, error => {
+        clearTimeout(timer);
+        callback(error);
+      });
+    } else {
+      retry();
+    }
+  }
+
+  function executeRetryable(server: Server) {
+    operation.execute(server, session, (error, result) => {
+      if (error instanceof MongoError) {
+        return retryOperation(error, server);
+      } else if (error) {
+        return callback(error);
+      }
+      callback(undefined, result);
     });
   }
 
@@ -250,7 +381,7 @@ function executeWithServerSelection<TResult>(
   }
 
   // select a server, and execute the operation against it
-  topology.selectServer(selector, serverSelectionOptions, (error, server) => {
+  selectServer((error, server) => {
     if (error || !server) {
       return callback(error);
     }
@@ -265,23 +396,13 @@ function executeWithServerSelection<TResult>(
         supportsRetryableWrites(server) &&
         operation.canRetryWrite;
 
-      const hasReadAspect = operation.hasAspect(Aspect.READ_OPERATION);
-      const hasWriteAspect = operation.hasAspect(Aspect.WRITE_OPERATION);
-
-      if ((hasReadAspect && willRetryRead) || (hasWriteAspect && willRetryWrite)) {
-        if (hasWriteAspect && willRetryWrite) {
+      if ((isReadOperation && willRetryRead) || (isWriteOperation && willRetryWrite)) {
+        if (isWriteOperation && willRetryWrite) {
           operation.options.willRetryWrite = true;
           session.incrementTransactionNumber();
         }
 
-        return operation.execute(server, session, (error, result) => {
-          if (error instanceof MongoError) {
-            return retryOperation(error);
-          } else if (error) {
-            return callback(error);
-          }
-          callback(undefined, result);
-        });
+        return executeRetryable(server);
       }
     }
 
@@ -67,6 +67,7 @@ export interface FindOptions<TSchema extends Document = Document> extends Comman
 }
 
 const SUPPORTS_WRITE_CONCERN_AND_COLLATION = 5;
+const SUPPORTS_LET = 13;
 
 /** @internal */
 export class FindOperation extends CommandOperation<Document> {
@@ -128,6 +129,16 @@ export class FindOperation extends CommandOperation<Document> {
       return;
     }
 
+    if (options.let != null && serverWireVersion < SUPPORTS_LET) {
+      callback(
+        new MongoCompatibilityError(
+          `Server ${server.name}, which reports wire version ${serverWireVersion}, does not support let`
+        )
+      );
+
+      return;
+    }
+
     let findCommand = makeFindCommand(this.ns, this.filter, options);
     if (this.explain) {
       findCommand = decorateWithExplain(findCommand, this.explain);
@@ -140,7 +151,8 @@ export class FindOperation extends CommandOperation<Document> {
         ...this.options,
         ...this.bsonOptions,
         documentsReturnedIn: 'firstBatch',
-        session
+        session,
+        timeoutContext: this.timeoutContext
       },
       callback
     );
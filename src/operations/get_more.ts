@@ -56,7 +56,12 @@ export class GetMoreOperation extends AbstractOperation {
         new MongoRuntimeError('Getmore must run on the same server operation began on')
       );
     }
-    server.getMore(this.ns, this.cursorId, this.options, callback);
+    server.getMore(
+      this.ns,
+      this.cursorId,
+      { ...this.options, timeoutContext: this.timeoutContext },
+      callback
+    );
   }
 }
 
@@ -230,6 +230,15 @@ export class CreateIndexesOperation<
         return;
       }
 
+      if (indexes[i].hidden != null && serverWireVersion < 9) {
+        callback(
+          new MongoCompatibilityError(
+            'Option `hidden` for `createIndexes` not supported on servers < 4.4'
+          )
+        );
+        return;
+      }
+
       if (indexes[i].name == null) {
         const keys = [];
 
@@ -1,6 +1,7 @@
 import type { Document } from '../bson.ts';
 import type { BulkWriteOptions } from '../bulk/common.ts';
 import type { Collection } from '../collection.ts';
+import { DocumentSequence } from '../cmap/commands.ts';
 import { MongoInvalidArgumentError, MongoServerError } from '../error.ts';
 import type { InferIdType } from '../mongo_types.ts';
 import type { Server } from '../sdam/server.ts';
@@ -33,7 +34,7 @@ export class InsertOperation extends CommandOperation<Document> {
     const ordered = typeof options.ordered === 'boolean' ? options.ordered : true;
     const command: Document = {
       insert: this.ns.collection,
-      documents: this.documents,
+      documents: new DocumentSequence(this.documents),
       ordered
     };
 
@@ -33,6 +33,9 @@ const exclusionList = [
   'serializeFunctions',
   'ignoreUndefined',
   'enableUtf8Validation',
+  'timeoutMS',
+  'signal',
+  'retryPolicy',
   'scope' // this option is reformatted thus exclude the original
 ];
 
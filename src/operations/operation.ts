@@ -1,7 +1,10 @@
 import { BSONSerializeOptions, Document, resolveBSONOptions } from '../bson.ts';
+import type { Abortable } from '../mongo_types.ts';
 import { ReadPreference, ReadPreferenceLike } from '../read_preference.ts';
+import type { RetryPolicy } from '../retry_policy.ts';
 import type { Server } from '../sdam/server.ts';
 import type { ClientSession } from '../sessions.ts';
+import type { TimeoutContext } from '../timeout.ts';
 import type { Callback, MongoDBNamespace } from '../utils.ts';
 
 export const Aspect = {
@@ -22,7 +25,7 @@ export interface OperationConstructor extends Function {
 }
 
 /** @public */
-export interface OperationOptions extends BSONSerializeOptions {
+export interface OperationOptions extends BSONSerializeOptions, Abortable {
   /** Specify ClientSession for this command */
   session?: ClientSession;
   willRetryWrite?: boolean;
@@ -30,6 +33,16 @@ export interface OperationOptions extends BSONSerializeOptions {
   /** The preferred read preference (ReadPreference.primary, ReadPreference.primary_preferred, ReadPreference.secondary, ReadPreference.secondary_preferred, ReadPreference.nearest). */
   readPreference?: ReadPreferenceLike;
 
+  /**
+   * Bounds the whole operation, including server selection, connection checkout, retries and
+   * the command round trip. `0` means no limit. Inherited from the collection, database, session
+   * or client when not set.
+   */
+  timeoutMS?: number;
+
+  /** Overrides the client's `retryPolicy` for this operation */
+  retryPolicy?: RetryPolicy;
+
   /** @internal Hints to `executeOperation` that this operation should not unpin on an ended transaction */
   bypassPinningCheck?: boolean;
   omitReadPreference?: boolean;
@@ -52,6 +65,8 @@ export abstract class AbstractOperation<TResult = any> {
   server!: Server;
   bypassPinningCheck: boolean;
   trySecondaryWrite: boolean;
+  /** The `timeoutMS` budget of the current execution, set by `executeOperation` */
+  timeoutContext?: TimeoutContext;
 
   // BSON serialization options
   bsonOptions?: BSONSerializeOptions;
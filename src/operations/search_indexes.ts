@@ -0,0 +1,181 @@
+import type { Document } from '../bson.ts';
+import type { Collection } from '../collection.ts';
+import { MONGODB_ERROR_CODES, MongoServerError } from '../error.ts';
+import type { Server } from '../sdam/server.ts';
+import type { ClientSession } from '../sessions.ts';
+import type { Callback } from '../utils.ts';
+import type { AggregateOptions } from './aggregate.ts';
+import { CommandOperation, CommandOperationOptions } from './command.ts';
+import { Aspect, defineAspects } from './operation.ts';
+
+/**
+ * The definition of an Atlas Search index.
+ * @see https://www.mongodb.com/docs/atlas/atlas-search/index-definitions/
+ * @public
+ */
+export interface SearchIndexDefinition {
+  /** How the fields of the documents are indexed */
+  mappings: {
+    /** Whether to index all fields of supported types, or a typeset document (MongoDB 8.0+) */
+    dynamic: boolean | Document;
+    /** The explicitly mapped fields, by field name */
+    fields?: Document;
+  };
+  /** The analyzer applied to string fields when indexing. Defaults to `lucene.standard` */
+  analyzer?: string;
+  /** The analyzer applied to the query text. Defaults to the `analyzer` */
+  searchAnalyzer?: string;
+  /** Custom analyzers to use in this index */
+  analyzers?: Document[];
+  /** The fields to store on Atlas Search, for `returnStoredSource` queries */
+  storedSource?: boolean | Document;
+  /** Synonym mappings to use in this index */
+  synonyms?: Document[];
+  [key: string]: unknown;
+}
+
+/** @public */
+export interface VectorSearchVectorField {
+  type: 'vector';
+  /** The field holding the embeddings, in dot notation */
+  path: string;
+  /** The number of dimensions of the embeddings, up to 8192 */
+  numDimensions: number;
+  /** The similarity function used to search for the top K nearest neighbors */
+  similarity: 'euclidean' | 'cosine' | 'dotProduct';
+  /** How the embeddings are compressed. Defaults to `'none'` */
+  quantization?: 'none' | 'scalar' | 'binary';
+}
+
+/** @public */
+export interface VectorSearchFilterField {
+  type: 'filter';
+  /** The field to pre-filter on, in dot notation */
+  path: string;
+}
+
+/**
+ * The definition of an Atlas Vector Search index.
+ * @see https://www.mongodb.com/docs/atlas/atlas-vector-search/vector-search-type/
+ * @public
+ */
+export interface VectorSearchIndexDefinition {
+  fields: (VectorSearchVectorField | VectorSearchFilterField)[];
+}
+
+/** @public */
+export type SearchIndexDescription =
+  | {
+      /** The name of the index. Defaults to `default` */
+      name?: string;
+      type?: 'search';
+      definition: SearchIndexDefinition;
+    }
+  | {
+      /** The name of the index. Defaults to `default` */
+      name?: string;
+      type: 'vectorSearch';
+      definition: VectorSearchIndexDefinition;
+    };
+
+/** @public */
+export type ListSearchIndexesOptions = Omit<AggregateOptions, 'readConcern' | 'writeConcern'>;
+
+/** @internal */
+export class CreateSearchIndexesOperation extends CommandOperation<string[]> {
+  collection: Collection;
+  descriptions: ReadonlyArray<SearchIndexDescription>;
+
+  constructor(
+    collection: Collection,
+    descriptions: ReadonlyArray<SearchIndexDescription>,
+    options?: CommandOperationOptions
+  ) {
+    super(collection, options);
+    this.collection = collection;
+    this.descriptions = descriptions;
+  }
+
+  override execute(
+    server: Server,
+    session: ClientSession | undefined,
+    callback: Callback<string[]>
+  ): void {
+    const cmd = {
+      createSearchIndexes: this.collection.collectionName,
+      indexes: this.descriptions
+    };
+
+    super.executeCommand(server, session, cmd, (err, res) => {
+      if (err || !res) return callback(err);
+      const indexesCreated: Document[] = res.indexesCreated ?? [];
+      callback(undefined, indexesCreated.map(({ name }) => name));
+    });
+  }
+}
+
+/** @internal */
+export class UpdateSearchIndexOperation extends CommandOperation<void> {
+  collection: Collection;
+  name: string;
+  definition: SearchIndexDefinition | VectorSearchIndexDefinition;
+
+  constructor(
+    collection: Collection,
+    name: string,
+    definition: SearchIndexDefinition | VectorSearchIndexDefinition,
+    options?: CommandOperationOptions
+  ) {
+    super(collection, options);
+    this.collection = collection;
+    this.name = name;
+    this.definition = definition;
+  }
+
+  override execute(
+    server: Server,
+    session: ClientSession | undefined,
+    callback: Callback<void>
+  ): void {
+    const cmd = {
+      updateSearchIndex: this.collection.collectionName,
+      name: this.name,
+      definition: this.definition
+    };
+
+    super.executeCommand(server, session, cmd, err => callback(err));
+  }
+}
+
+/** @internal */
+export class DropSearchIndexOperation extends CommandOperation<void> {
+  collection: Collection;
+  name: string;
+
+  constructor(collection: Collection, name: string, options?: CommandOperationOptions) {
+    super(collection, options);
+    this.collection = collection;
+    this.name = name;
+  }
+
+  override execute(
+    server: Server,
+    session: ClientSession | undefined,
+    callback: Callback<void>
+  ): void {
+    const cmd = { dropSearchIndex: this.collection.collectionName, name: this.name };
+
+    super.executeCommand(server, session, cmd, err => {
+      // dropping an index of a collection that does not exist is a no-op, like dropIndexes
+      if (err && (err as MongoServerError).code !== MONGODB_ERROR_CODES.NamespaceNotFound) {
+        return callback(err);
+      }
+
+      callback();
+    });
+  }
+}
+
+defineAspects(CreateSearchIndexesOperation, [Aspect.WRITE_OPERATION]);
+defineAspects(UpdateSearchIndexOperation, [Aspect.WRITE_OPERATION]);
+defineAspects(DropSearchIndexOperation, [Aspect.WRITE_OPERATION]);
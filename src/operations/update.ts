@@ -1,8 +1,10 @@
 import type { Document, ObjectId } from '../bson.ts';
 import type { Collection } from '../collection.ts';
+import { DocumentSequence } from '../cmap/commands.ts';
 import { MongoCompatibilityError, MongoInvalidArgumentError, MongoServerError } from '../error.ts';
 import type { Server } from '../sdam/server.ts';
 import type { ClientSession } from '../sessions.ts';
+import { formatSort, Sort, SortForCmd } from '../sort.ts';
 import {
   Callback,
   collationNotSupported,
@@ -13,6 +15,8 @@ import {
 import { CollationOptions, CommandOperation, CommandOperationOptions } from './command.ts';
 import { Aspect, defineAspects, Hint } from './operation.ts';
 
+const SUPPORTS_UPDATE_SORT = 25;
+
 /** @public */
 export interface UpdateOptions extends CommandOperationOptions {
   /** A set of filters specifying to which array elements an update should apply */
@@ -27,6 +31,11 @@ export interface UpdateOptions extends CommandOperationOptions {
   upsert?: boolean;
   /** Map of parameter names and values that can be accessed using $$var (requires MongoDB 5.0). */
   let?: Document;
+  /**
+   * Determines which document `updateOne` updates when the filter matches several
+   * (requires MongoDB 8.0). Not supported by `updateMany`.
+   */
+  sort?: Sort;
 }
 
 /** @public */
@@ -59,6 +68,8 @@ export interface UpdateStatement {
   arrayFilters?: Document[];
   /** A document or string that specifies the index to use to support the query predicate. */
   hint?: Hint;
+  /** Determines which document a single-document update applies to if the query matches several */
+  sort?: SortForCmd;
 }
 
 /** @internal */
@@ -95,7 +106,8 @@ export class UpdateOperation extends CommandOperation<Document> {
     const ordered = typeof options.ordered === 'boolean' ? options.ordered : true;
     const command: Document = {
       update: this.ns.collection,
-      updates: this.statements,
+      // explain wraps the command in another document, which can't carry a sequence
+      updates: this.explain ? this.statements : new DocumentSequence(this.statements),
       ordered
     };
 
@@ -144,6 +156,14 @@ export class UpdateOperation extends CommandOperation<Document> {
       return;
     }
 
+    if (
+      this.statements.some(statement => !!statement.sort) &&
+      maxWireVersion(server) < SUPPORTS_UPDATE_SORT
+    ) {
+      callback(new MongoCompatibilityError('Option "sort" is only supported on MongoDB 8.0+'));
+      return;
+    }
+
     super.executeCommand(server, session, command, callback);
   }
 }
@@ -234,6 +254,8 @@ export interface ReplaceOptions extends CommandOperationOptions {
   upsert?: boolean;
   /** Map of parameter names and values that can be accessed using $$var (requires MongoDB 5.0). */
   let?: Document;
+  /** Determines which document is replaced if the filter matches several (requires MongoDB 8.0). */
+  sort?: Sort;
 }
 
 /** @internal */
@@ -312,6 +334,14 @@ export function makeUpdateStatement(
     op.collation = options.collation;
   }
 
+  if (options.sort) {
+    if (options.multi) {
+      throw new MongoInvalidArgumentError('Option "sort" is not supported by multi updates');
+    }
+
+    op.sort = formatSort(options.sort);
+  }
+
   return op;
 }
 
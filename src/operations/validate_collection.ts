@@ -23,7 +23,13 @@ export class ValidateCollectionOperation extends CommandOperation<Document> {
     const command: Document = { validate: collectionName };
     const keys = Object.keys(options);
     for (let i = 0; i < keys.length; i++) {
-      if (Object.prototype.hasOwnProperty.call(options, keys[i]) && keys[i] !== 'session') {
+      if (
+        Object.prototype.hasOwnProperty.call(options, keys[i]) &&
+        keys[i] !== 'session' &&
+        keys[i] !== 'timeoutMS' &&
+        keys[i] !== 'signal' &&
+        keys[i] !== 'retryPolicy'
+      ) {
         command[keys[i]] = (options as Document)[keys[i]];
       }
     }
@@ -0,0 +1,141 @@
+import { MongoError, MongoInvalidArgumentError } from './error.ts';
+
+/** @public */
+export interface RetryContext {
+  /** The attempt that just failed, the initial execution being attempt `1` */
+  attempt: number;
+  /** Whether the failed operation is a write, which is retried as a retryable write */
+  isWrite: boolean;
+  /** Whether the error is retryable by the rules of retryable reads and writes */
+  retryable: boolean;
+}
+
+/**
+ * Controls how often and how patiently the driver retries operations that failed with a
+ * retryable error. Operations are only retried where `retryReads` and `retryWrites` allow it,
+ * never inside a transaction.
+ * @public
+ */
+export interface RetryPolicy {
+  /** The maximum number of attempts, including the initial one. Defaults to 3 */
+  maxAttempts?: number;
+  /** The upper bound of the (randomized) delay before the first retry. Defaults to 100ms */
+  initialDelayMS?: number;
+  /**
+   * The upper bound of the delay, which doubles with every retry until it reaches this cap.
+   * Defaults to 10000ms
+   */
+  maxDelayMS?: number;
+  /**
+   * No retry is started once this much time passed since the initial attempt. Defaults to `0`,
+   * which means no limit
+   */
+  maxRetryTimeMS?: number;
+  /**
+   * Decides whether to retry after `error`, e.g. by its labels (`RetryableWriteError`,
+   * `TransientTransactionError`) or by it being a `MongoNetworkError`. Defaults to
+   * `context.retryable`.
+   */
+  shouldRetry?(error: MongoError, context: RetryContext): boolean;
+}
+
+/** @internal */
+export interface ResolvedRetryPolicy extends Required<Omit<RetryPolicy, 'shouldRetry'>> {
+  shouldRetry(error: MongoError, context: RetryContext): boolean;
+}
+
+const defaultShouldRetry = (_error: MongoError, context: RetryContext) => context.retryable;
+
+/**
+ * Retry behaviour without a policy: a single immediate retry, as required by the retryable reads
+ * and writes specifications.
+ */
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = Object.freeze({
+  maxAttempts: 2,
+  initialDelayMS: 0,
+  maxDelayMS: 0,
+  maxRetryTimeMS: 0,
+  shouldRetry: defaultShouldRetry
+});
+
+/**
+ * Fills in the defaults of `policy`.
+ * @internal
+ * @throws MongoInvalidArgumentError if a setting is out of range
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy): ResolvedRetryPolicy {
+  if (policy == null) {
+    return DEFAULT_RETRY_POLICY;
+  }
+
+  if (typeof policy !== 'object') {
+    throw new MongoInvalidArgumentError('retryPolicy must be an object');
+  }
+
+  const resolved: ResolvedRetryPolicy = {
+    maxAttempts: policy.maxAttempts ?? 3,
+    initialDelayMS: policy.initialDelayMS ?? 100,
+    maxDelayMS: policy.maxDelayMS ?? 10000,
+    maxRetryTimeMS: policy.maxRetryTimeMS ?? 0,
+    shouldRetry: policy.shouldRetry ?? defaultShouldRetry
+  };
+
+  if (!Number.isInteger(resolved.maxAttempts) || resolved.maxAttempts < 1) {
+    throw new MongoInvalidArgumentError('retryPolicy.maxAttempts must be a positive integer');
+  }
+
+  for (const name of ['initialDelayMS', 'maxDelayMS', 'maxRetryTimeMS'] as const) {
+    if (typeof resolved[name] !== 'number' || !(resolved[name] >= 0)) {
+      throw new MongoInvalidArgumentError(`retryPolicy.${name} must be a non-negative number`);
+    }
+  }
+
+  if (typeof resolved.shouldRetry !== 'function') {
+    throw new MongoInvalidArgumentError('retryPolicy.shouldRetry must be a function');
+  }
+
+  return resolved;
+}
+
+/**
+ * The delay before the `retry`th retry: exponential backoff with full jitter, i.e. a random
+ * delay up to `initialDelayMS * 2 ** (retry - 1)`, capped at `maxDelayMS`.
+ * @internal
+ */
+export function retryDelayMS(policy: ResolvedRetryPolicy, retry: number): number {
+  const ceiling = Math.min(policy.maxDelayMS, policy.initialDelayMS * 2 ** (retry - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Emitted before an operation is retried, once per retry.
+ * @public
+ * @category Event
+ */
+export class RetryAttemptEvent {
+  /** A unique identifier for the topology */
+  topologyId: number;
+  /** The address (host/port pair) of the server the previous attempt failed on */
+  address: string;
+  /** The attempt about to start, the first retry being attempt `2` */
+  attempt: number;
+  /** How long the driver waits before selecting a server for the attempt */
+  delayMS: number;
+  /** The error the previous attempt failed with */
+  failure: MongoError;
+
+  /** @internal */
+  constructor(
+    topologyId: number,
+    address: string,
+    attempt: number,
+    delayMS: number,
+    failure: MongoError
+  ) {
+    this.topologyId = topologyId;
+    this.address = address;
+    this.attempt = attempt;
+    this.delayMS = delayMS;
+    this.failure = failure;
+  }
+}
@@ -49,6 +49,24 @@ function isInCloseState(monitor: Monitor) {
   return monitor.s.state === STATE_CLOSED || monitor.s.state === STATE_CLOSING;
 }
 
+/**
+ * How servers are monitored:
+ * - `stream`: the server pushes changes over an awaitable `hello` (MongoDB 4.4+), while a
+ *   separate connection measures the round trip time
+ * - `poll`: the server is checked every `heartbeatFrequencyMS` over a single connection
+ * - `auto`: `stream`, except in FaaS environments, whose frozen or reaped idle connections
+ *   break the long-lived streaming connection
+ * @public
+ */
+export const ServerMonitoringMode = Object.freeze({
+  auto: 'auto',
+  poll: 'poll',
+  stream: 'stream'
+} as const);
+
+/** @public */
+export type ServerMonitoringMode = typeof ServerMonitoringMode[keyof typeof ServerMonitoringMode];
+
 /** @internal */
 export interface MonitorPrivate {
   state: string;
@@ -60,6 +78,7 @@ export interface MonitorOptions
   connectTimeoutMS: number;
   heartbeatFrequencyMS: number;
   minHeartbeatFrequencyMS: number;
+  serverMonitoringMode: ServerMonitoringMode;
 }
 
 /** @public */
@@ -78,7 +97,13 @@ export class Monitor extends TypedEventEmitter<MonitorEvents> {
   s: MonitorPrivate;
   address: string;
   options: Readonly<
-    Pick<MonitorOptions, 'connectTimeoutMS' | 'heartbeatFrequencyMS' | 'minHeartbeatFrequencyMS'>
+    Pick<
+      MonitorOptions,
+      | 'connectTimeoutMS'
+      | 'heartbeatFrequencyMS'
+      | 'minHeartbeatFrequencyMS'
+      | 'serverMonitoringMode'
+    >
   >;
   connectOptions: ConnectionOptions;
   [kServer]: Server;
@@ -104,7 +129,8 @@ export class Monitor extends TypedEventEmitter<MonitorEvents> {
     this.options = Object.freeze({
       connectTimeoutMS: options.connectTimeoutMS ?? 10000,
       heartbeatFrequencyMS: options.heartbeatFrequencyMS ?? 10000,
-      minHeartbeatFrequencyMS: options.minHeartbeatFrequencyMS ?? 500
+      minHeartbeatFrequencyMS: options.minHeartbeatFrequencyMS ?? 500,
+      serverMonitoringMode: options.serverMonitoringMode ?? ServerMonitoringMode.auto
     });
 
     const cancellationToken = this[kCancellationToken];
@@ -207,6 +233,47 @@ function resetMonitorState(monitor: Monitor) {
   monitor[kConnection] = undefined;
 }
 
+/** Hints that the process runs as a function on a FaaS platform */
+const FAAS_ENV_VARIABLES = [
+  'AWS_LAMBDA_RUNTIME_API',
+  'FUNCTIONS_WORKER_RUNTIME',
+  'K_SERVICE',
+  'FUNCTION_NAME',
+  'VERCEL',
+  'DENO_DEPLOYMENT_ID'
+];
+
+let faasEnvironment: boolean | undefined;
+
+function isFaaSEnvironment(): boolean {
+  if (faasEnvironment == null) {
+    // reading the environment without permission prompts for it, so a process that has not
+    // granted it is assumed to be long-running
+    faasEnvironment =
+      Deno.permissions.querySync({ name: 'env' }).state === 'granted' &&
+      ((Deno.env.get('AWS_EXECUTION_ENV') ?? '').startsWith('AWS_Lambda_') ||
+        FAAS_ENV_VARIABLES.some(name => Deno.env.get(name) != null));
+  }
+
+  return faasEnvironment;
+}
+
+/** Whether to await changes of a server reporting `topologyVersion` instead of polling it */
+function useStreamingProtocol(monitor: Monitor, topologyVersion?: TopologyVersion | null): boolean {
+  if (topologyVersion == null) {
+    return false;
+  }
+
+  switch (monitor.options.serverMonitoringMode) {
+    case ServerMonitoringMode.poll:
+      return false;
+    case ServerMonitoringMode.stream:
+      return true;
+    default:
+      return !isFaaSEnvironment();
+  }
+}
+
 function checkServer(monitor: Monitor, callback: Callback<Document | null>) {
   let start = now();
   monitor.emit(Server.SERVER_HEARTBEAT_STARTED, new ServerHeartbeatStartedEvent(monitor.address));
@@ -231,7 +298,7 @@ function checkServer(monitor: Monitor, callback: Callback<Document | null>) {
     const connectTimeoutMS = monitor.options.connectTimeoutMS;
     const maxAwaitTimeMS = monitor.options.heartbeatFrequencyMS;
     const topologyVersion = monitor[kServer].description.topologyVersion;
-    const isAwaitable = topologyVersion != null;
+    const isAwaitable = useStreamingProtocol(monitor, topologyVersion);
 
     const cmd = {
       [serverApi?.version || helloOk ? 'hello' : LEGACY_HELLO_COMMAND]: true,
@@ -278,7 +345,7 @@ function checkServer(monitor: Monitor, callback: Callback<Document | null>) {
 
       // if we are using the streaming protocol then we immediately issue another `started`
       // event, otherwise the "check" is complete and return to the main monitor loop
-      if (isAwaitable && hello.topologyVersion) {
+      if (isAwaitable && useStreamingProtocol(monitor, hello.topologyVersion)) {
         monitor.emit(
           Server.SERVER_HEARTBEAT_STARTED,
           new ServerHeartbeatStartedEvent(monitor.address)
@@ -347,7 +414,7 @@ function monitorServer(monitor: Monitor) {
       }
 
       // if the check indicates streaming is supported, immediately reschedule monitoring
-      if (hello && hello.topologyVersion) {
+      if (hello && useStreamingProtocol(monitor, hello.topologyVersion)) {
         setTimeout(() => {
           if (!isInCloseState(monitor)) {
             monitor[kMonitorId]?.wake();
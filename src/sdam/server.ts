@@ -1,10 +1,19 @@
 import type { Document, Long } from '../bson.ts';
-import { CommandOptions, Connection, DestroyOptions, GetMoreOptions } from '../cmap/connection.ts';
+import { BinMsg } from '../cmap/commands.ts';
+import { reauthenticate } from '../cmap/connect.ts';
+import {
+  CommandOptions,
+  Connection,
+  DestroyOptions,
+  GetMoreOptions,
+  kFullResult
+} from '../cmap/connection.ts';
 import {
   ConnectionPool,
   ConnectionPoolEvents,
   ConnectionPoolOptions
 } from '../cmap/connection_pool.ts';
+import { PoolClearedError } from '../cmap/errors.ts';
 import {
   APM_EVENTS,
   CLOSED,
@@ -23,12 +32,14 @@ import {
   isNodeShuttingDownError,
   isSDAMUnrecoverableError,
   MongoCompatibilityError,
+  MONGODB_ERROR_CODES,
   MongoError,
   MongoErrorLabel,
   MongoInvalidArgumentError,
   MongoNetworkError,
   MongoNetworkTimeoutError,
   MongoServerClosedError,
+  MongoServerError,
   MongoUnexpectedServerResponseError,
   needsRetryableWriteLabel
 } from '../error.ts';
@@ -36,8 +47,10 @@ import { Logger } from '../logger.ts';
 import type { ServerApi } from '../mongo_client.ts';
 import { TypedEventEmitter } from '../mongo_types.ts';
 import type { ClientSession } from '../sessions.ts';
+import type { TimeoutContext } from '../timeout.ts';
 import { isTransactionCommand } from '../transactions.ts';
 import {
+  addAbortListener,
   Callback,
   collationNotSupported,
   EventEmitterWithState,
@@ -98,6 +111,13 @@ export interface ServerPrivate {
   operationCount: number;
 }
 
+/** @internal */
+export interface ExhaustGetMoreReply {
+  response: Document;
+  /** Whether the server will push another reply on the same connection */
+  moreToCome: boolean;
+}
+
 /** @public */
 export type ServerEvents = {
   serverHeartbeatStarted(event: ServerHeartbeatStartedEvent): void;
@@ -240,6 +260,8 @@ export class Server extends TypedEventEmitter<ServerEvents> {
     if (!this.loadBalanced) {
       this[kMonitor]?.connect();
     } else {
+      // there is no monitor to find the load balancer healthy, so its pool is ready right away
+      this.s.pool.ready();
       stateTransition(this, STATE_CONNECTED);
       this.emit(Server.CONNECT, this);
     }
@@ -338,20 +360,25 @@ export class Server extends TypedEventEmitter<ServerEvents> {
     //       require special logic to decrement it again, or would double increment (the load
     //       balanced code makes a recursive call).  Instead, we increment the count after this
     //       check.
+    const { timeoutContext, signal } = finalOptions;
     if (this.loadBalanced && session && conn == null && isPinnableCommand(cmd, session)) {
-      this.s.pool.checkOut((err, checkedOut) => {
-        if (err || checkedOut == null) {
-          if (callback) return callback(err);
-          return;
-        }
+      this.s.pool.checkOut(
+        (err, checkedOut) => {
+          if (err || checkedOut == null) {
+            if (callback) return callback(err);
+            return;
+          }
 
-        session.pin(checkedOut);
-        this.command(ns, cmd, finalOptions, callback);
-      });
+          session.pin(checkedOut);
+          this.command(ns, cmd, finalOptions, callback);
+        },
+        { timeoutContext, signal }
+      );
       return;
     }
 
     this.s.operationCount += 1;
+    const abortableCallback = makeAbortableCallback(finalOptions, callback);
 
     this.s.pool.withConnection(
       conn,
@@ -362,17 +389,43 @@ export class Server extends TypedEventEmitter<ServerEvents> {
           return cb(err);
         }
 
-        conn.command(
-          ns,
-          cmd,
-          finalOptions,
-          makeOperationHandler(this, conn, cmd, finalOptions, (error, response) => {
+        let finalCmd = cmd;
+        let appliedMaxTimeMS = false;
+        if (timeoutContext) {
+          const maxTimeMS = applyTimeoutContext(this, timeoutContext, finalOptions);
+          if (maxTimeMS == null) {
+            this.s.operationCount -= 1;
+            return cb(timeoutContext.error('command execution'));
+          }
+
+          // commands in a transaction inherit the transaction's time limit
+          if (Number.isFinite(maxTimeMS) && !session?.inTransaction()) {
+            appliedMaxTimeMS = cmd.maxTimeMS == null || maxTimeMS < cmd.maxTimeMS;
+            finalCmd = appliedMaxTimeMS ? { ...cmd, maxTimeMS } : cmd;
+          }
+        }
+
+        withReauthentication(
+          conn,
+          handler => conn.command(ns, finalCmd, finalOptions, handler),
+          makeOperationHandler(this, conn, finalCmd, finalOptions, (error, response) => {
             this.s.operationCount -= 1;
+            if (
+              timeoutContext &&
+              ((error instanceof MongoNetworkTimeoutError && timeoutContext.expired) ||
+                (appliedMaxTimeMS &&
+                  error instanceof MongoServerError &&
+                  error.code === MONGODB_ERROR_CODES.MaxTimeMSExpired))
+            ) {
+              return cb(timeoutContext.error('command execution'));
+            }
+
             cb(error, response);
           })
         );
       },
-      callback
+      abortableCallback,
+      { timeoutContext, signal }
     );
   }
 
@@ -393,6 +446,7 @@ export class Server extends TypedEventEmitter<ServerEvents> {
 
     this.s.operationCount += 1;
 
+    const { timeoutContext, signal } = options;
     this.s.pool.withConnection(
       options.session?.pinnedConnection,
       (err, conn, cb) => {
@@ -402,18 +456,143 @@ export class Server extends TypedEventEmitter<ServerEvents> {
           return cb(err);
         }
 
-        conn.getMore(
-          ns,
-          cursorId,
-          options,
-          makeOperationHandler(this, conn, {}, options, (error, response) => {
+        // the maxTimeMS of a getMore is how long an awaitData cursor waits for new documents,
+        // so the budget only bounds the round trip
+        const finalOptions = { ...options };
+        if (timeoutContext && applyTimeoutContext(this, timeoutContext, finalOptions) == null) {
+          this.s.operationCount -= 1;
+          return cb(timeoutContext.error('command execution'));
+        }
+
+        withReauthentication(
+          conn,
+          handler => conn.getMore(ns, cursorId, finalOptions, handler),
+          makeOperationHandler(this, conn, {}, finalOptions, (error, response) => {
             this.s.operationCount -= 1;
+            if (error instanceof MongoNetworkTimeoutError && timeoutContext?.expired) {
+              return cb(timeoutContext.error('command execution'));
+            }
+
             cb(error, response);
           })
         );
       },
-      callback
+      makeAbortableCallback(options, callback),
+      { timeoutContext, signal }
+    );
+  }
+
+  /**
+   * Execute a `getMore` with the `exhaustAllowed` bit set. The server may then push every
+   * remaining batch as a `moreToCome` reply, so `callback` is called once per reply and the
+   * connection stays checked out until the final one arrives.
+   *
+   * Returns a function that ends the stream early. The connection is closed in that case,
+   * since the replies still in flight would otherwise be read by its next user.
+   * @internal
+   */
+  exhaustGetMore(
+    ns: MongoDBNamespace,
+    cursorId: Long,
+    options: GetMoreOptions,
+    callback: Callback<ExhaustGetMoreReply>
+  ): () => void {
+    if (this.s.state === STATE_CLOSING || this.s.state === STATE_CLOSED) {
+      callback(new MongoServerClosedError());
+      return () => undefined;
+    }
+
+    let connection: Connection | undefined;
+    let checkIn: (() => void) | undefined;
+    let finished = false;
+    let removeAbortListener: () => void = () => undefined;
+    const finish = () => {
+      finished = true;
+      removeAbortListener();
+      this.s.operationCount -= 1;
+    };
+
+    const cancel = () => {
+      if (finished) return;
+      finish();
+
+      const conn = connection;
+      if (conn && checkIn) {
+        // check the connection in once it is closed, so the pool discards it
+        conn.once(Connection.CLOSE, checkIn);
+        conn.destroy({ force: true });
+      }
+    };
+
+    const { timeoutContext, signal } = options;
+    if (signal) {
+      removeAbortListener = addAbortListener(signal, error => {
+        if (finished) return;
+        cancel();
+        callback(error);
+      });
+    }
+
+    this.s.operationCount += 1;
+    this.s.pool.withConnection(
+      undefined,
+      (err, conn, cb) => {
+        const done = () => cb(undefined, conn);
+        if (finished) {
+          return done();
+        }
+
+        if (err || !conn) {
+          finish();
+          markServerUnknown(this, err);
+          done();
+          return callback(err);
+        }
+
+        const finalOptions = { ...options, exhaustAllowed: true, [kFullResult]: true };
+        if (timeoutContext && applyTimeoutContext(this, timeoutContext, finalOptions) == null) {
+          finish();
+          done();
+          return callback(timeoutContext.error('command execution'));
+        }
+
+        connection = conn;
+        checkIn = done;
+        const operationHandler = makeOperationHandler(this, conn, {}, finalOptions, callback);
+        withReauthentication(
+          conn,
+          handler => conn.getMore(ns, cursorId, finalOptions, handler),
+          (error, reply) => {
+            // replies and errors caused by closing a cancelled stream are of no interest
+            if (finished) return;
+
+            const message = reply instanceof BinMsg ? reply : undefined;
+            const moreToCome = error == null && !!message?.moreToCome;
+            if (!moreToCome) {
+              finish();
+              done();
+            }
+
+            if (error instanceof MongoNetworkTimeoutError && timeoutContext?.expired) {
+              return callback(timeoutContext.error('command execution'));
+            }
+
+            if (error || message == null) {
+              return operationHandler(error);
+            }
+
+            operationHandler(undefined, {
+              response: message.documents[0] as Document,
+              moreToCome
+            });
+          }
+        );
+      },
+      undefined,
+      { timeoutContext, signal }
     );
+
+    return cancel;
   }
 
   /**
@@ -474,6 +653,11 @@ function markServerUnknown(server: Server, error?: MongoError) {
     return;
   }
 
+  // A paused pool failing checkouts is the result of the server already being marked unknown
+  if (error instanceof PoolClearedError) {
+    return;
+  }
+
   if (error instanceof MongoNetworkError && !(error instanceof MongoNetworkTimeoutError)) {
     server[kMonitor]?.reset();
   }
@@ -529,6 +713,94 @@ function isRetryableWritesEnabled(topology: Topology) {
   return topology.s.options.retryWrites !== false;
 }
 
+/**
+ * Runs `execute` on `connection`, and runs it once more after reauthenticating the connection
+ * if the server reports that its authentication has expired.
+ */
+function withReauthentication(
+  connection: Connection,
+  execute: (callback: Callback<Document>) => void,
+  callback: Callback<Document>
+): void {
+  execute((error, response) => {
+    if (
+      error instanceof MongoServerError &&
+      error.code === MONGODB_ERROR_CODES.ReauthenticationRequired
+    ) {
+      return reauthenticate(connection, reauthError => {
+        if (reauthError) {
+          return callback(reauthError);
+        }
+
+        execute(callback);
+      });
+    }
+
+    callback(error, response);
+  });
+}
+
+/**
+ * Wraps `callback` so that aborting the command's `signal` answers it right away. A command that
+ * was already sent keeps its connection checked out until the reply arrives, the reply is then
+ * discarded.
+ */
+function makeAbortableCallback<T>(options: CommandOptions, callback: Callback<T>): Callback<T> {
+  const signal = options.signal;
+  if (signal == null) {
+    return callback;
+  }
+
+  let settled = false;
+  const settle: Callback<T> = (error, result) => {
+    if (settled) {
+      return;
+    }
+
+    settled = true;
+    removeAbortListener();
+    callback(error, result);
+  };
+
+  const removeAbortListener = addAbortListener(signal, error => {
+    const session = options.session;
+    if (session && !session.hasEnded && session.serverSession) {
+      // the server may still be running the command under this session
+      session.serverSession.isDirty = true;
+    }
+
+    settle(error);
+  });
+
+  return settle;
+}
+
+/**
+ * Spends what is left of an operation's `timeoutMS` on the command about to be sent: the socket
+ * timeout is lowered so a reply that never arrives still fails the operation in time.
+ *
+ * @returns The `maxTimeMS` the server should be given, leaving room for the round trip, or
+ * `undefined` when too little of the budget is left to send the command at all
+ */
+function applyTimeoutContext(
+  server: Server,
+  timeoutContext: TimeoutContext,
+  options: CommandOptions
+): number | undefined {
+  const remainingMS = timeoutContext.remainingMS;
+  if (remainingMS === Infinity) {
+    return Infinity;
+  }
+
+  const maxTimeMS = Math.floor(remainingMS - Math.max(0, server.description.roundTripTime));
+  if (maxTimeMS <= 0) {
+    return;
+  }
+
+  options.socketTimeoutMS = Math.ceil(remainingMS);
+  return maxTimeMS;
+}
+
 function makeOperationHandler(
   server: Server,
   connection: Connection,
@@ -1,3 +1,4 @@
+import type { ConnectionPoolStatistics } from '../cmap/metrics.ts';
 import { MongoCompatibilityError, MongoInvalidArgumentError } from '../error.ts';
 import { ReadPreference } from '../read_preference.ts';
 import { ServerType, TopologyType } from './common.ts';
@@ -17,6 +18,52 @@ export type ServerSelector = (
   servers: ServerDescription[]
 ) => ServerDescription[];
 
+/** @public */
+export interface ServerSelectionContext {
+  topologyDescription: TopologyDescription;
+  /** The read preference the candidates were selected by, unset for writes */
+  readPreference?: ReadPreference;
+  /** Statistics of the connection pool of the server at `address`, e.g. its `inUse` connections */
+  poolStatistics(address: string): ConnectionPoolStatistics | undefined;
+}
+
+/**
+ * Called with the servers suitable for an operation, after read preference, tag set and latency
+ * window filtering. Returns the servers to choose from in order of preference: the first one is
+ * used, and when none are returned selection waits for the topology to change, like it does
+ * when no server is suitable.
+ * @public
+ */
+export type ServerSelectionHook = (
+  candidates: ServerDescription[],
+  context: ServerSelectionContext
+) => ServerDescription[];
+
+/**
+ * Wraps `selector` so that in a sharded cluster the `deprioritized` servers (e.g. a mongos an
+ * operation just failed on) are only selected when no other suitable mongos is available
+ */
+export function deprioritizedServerSelector(
+  selector: ServerSelector,
+  deprioritized: ServerDescription[]
+): ServerSelector {
+  const addresses = new Set(deprioritized.map(description => description.address));
+  return (
+    topologyDescription: TopologyDescription,
+    servers: ServerDescription[]
+  ): ServerDescription[] => {
+    if (topologyDescription.type !== TopologyType.Sharded) {
+      return selector(topologyDescription, servers);
+    }
+
+    const preferred = selector(
+      topologyDescription,
+      servers.filter(server => !addresses.has(server.address))
+    );
+    return preferred.length > 0 ? preferred : selector(topologyDescription, servers);
+  };
+}
+
 /**
  * Returns a server selector that selects for writable servers
  */
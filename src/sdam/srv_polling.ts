@@ -1,5 +1,5 @@
-import * as dns from 'dns';
-
+import { nextTick } from 'next-tick';
+import { DnsResolver, getDnsResolver, SrvRecord } from '../dns_resolver.ts';
 import { MongoRuntimeError } from '../error.ts';
 import { Logger, LoggerOptions } from '../logger.ts';
 import { TypedEventEmitter } from '../mongo_types.ts';
@@ -25,8 +25,8 @@ function matchesParentDomain(srvAddress: string, parentDomain: string): boolean
  * @category Event
  */
 export class SrvPollingEvent {
-  srvRecords: dns.SrvRecord[];
-  constructor(srvRecords: dns.SrvRecord[]) {
+  srvRecords: SrvRecord[];
+  constructor(srvRecords: SrvRecord[]) {
     this.srvRecords = srvRecords;
   }
 
@@ -41,6 +41,8 @@ export interface SrvPollerOptions extends LoggerOptions {
   srvMaxHosts: number;
   srvHost: string;
   heartbeatFrequencyMS: number;
+  /** Defaults to resolving through `Deno.resolveDns` */
+  dnsResolver?: DnsResolver;
 }
 
 /** @internal */
@@ -58,6 +60,7 @@ export class SrvPoller extends TypedEventEmitter<SrvPollerEvents> {
   generation: number;
   srvMaxHosts: number;
   srvServiceName: string;
+  dnsResolver: DnsResolver;
   _timeout?: NodeJS.Timeout;
 
   /** @event */
@@ -75,6 +78,7 @@ export class SrvPoller extends TypedEventEmitter<SrvPollerEvents> {
     this.srvServiceName = options.srvServiceName ?? 'mongodb';
     this.rescanSrvIntervalMS = 60000;
     this.heartbeatFrequencyMS = options.heartbeatFrequencyMS ?? 10000;
+    this.dnsResolver = getDnsResolver(options);
     this.logger = new Logger('srvPoller', options);
 
     this.haMode = false;
@@ -113,19 +117,19 @@ export class SrvPoller extends TypedEventEmitter<SrvPollerEvents> {
     this._timeout = setTimeout(() => this._poll(), this.intervalMS);
   }
 
-  success(srvRecords: dns.SrvRecord[]): void {
+  success(srvRecords: SrvRecord[]): void {
     this.haMode = false;
     this.schedule();
     this.emit(SrvPoller.SRV_RECORD_DISCOVERY, new SrvPollingEvent(srvRecords));
   }
 
-  failure(message: string, obj?: NodeJS.ErrnoException): void {
+  failure(message: string, obj?: Error): void {
     this.logger.warn(message, obj);
     this.haMode = true;
     this.schedule();
   }
 
-  parentDomainMismatch(srvRecord: dns.SrvRecord): void {
+  parentDomainMismatch(srvRecord: SrvRecord): void {
     this.logger.warn(
       `parent domain mismatch on SRV record (${srvRecord.name}:${srvRecord.port})`,
       srvRecord
@@ -134,31 +138,43 @@ export class SrvPoller extends TypedEventEmitter<SrvPollerEvents> {
 
   _poll(): void {
     const generation = this.generation;
-    dns.resolveSrv(this.srvAddress, (err, srvRecords) => {
-      if (generation !== this.generation) {
-        return;
-      }
+    // a custom resolver throwing rather than rejecting fails the poll too
+    const resolveSrv = new Promise<SrvRecord[]>(resolve =>
+      resolve(this.dnsResolver.resolveSrv(this.srvAddress))
+    );
 
-      if (err) {
-        this.failure('DNS error', err);
-        return;
-      }
+    // the results are handled outside of the promise chain, so that a throwing listener is not
+    // swallowed
+    resolveSrv.then(
+      srvRecords => nextTick(() => this._onSrvRecords(generation, srvRecords)),
+      error =>
+        nextTick(() => {
+          if (generation === this.generation) {
+            this.failure('DNS error', error);
+          }
+        })
+    );
+  }
 
-      const finalAddresses: dns.SrvRecord[] = [];
-      for (const record of srvRecords) {
-        if (matchesParentDomain(record.name, this.srvHost)) {
-          finalAddresses.push(record);
-        } else {
-          this.parentDomainMismatch(record);
-        }
-      }
+  _onSrvRecords(generation: number, srvRecords: SrvRecord[]): void {
+    if (generation !== this.generation) {
+      return;
+    }
 
-      if (!finalAddresses.length) {
-        this.failure('No valid addresses found at host');
-        return;
+    const finalAddresses: SrvRecord[] = [];
+    for (const record of srvRecords) {
+      if (matchesParentDomain(record.name, this.srvHost)) {
+        finalAddresses.push(record);
+      } else {
+        this.parentDomainMismatch(record);
       }
+    }
+
+    if (!finalAddresses.length) {
+      this.failure('No valid addresses found at host');
+      return;
+    }
 
-      this.success(finalAddresses);
-    });
+    this.success(finalAddresses);
   }
 }
@@ -6,12 +6,14 @@ import type { MongoCredentials } from '../cmap/auth/mongo_credentials.ts';
 import type { ConnectionEvents, DestroyOptions } from '../cmap/connection.ts';
 import type { CloseOptions, ConnectionPoolEvents } from '../cmap/connection_pool.ts';
 import { DEFAULT_OPTIONS, FEATURE_FLAGS } from  '../connection_string.ts';
+import { DnsResolver, getDnsResolver } from '../dns_resolver.ts';
 import {
   CLOSE,
   CONNECT,
   ERROR,
   LOCAL_SERVER_EVENTS,
   OPEN,
+  RETRY_ATTEMPT,
   SERVER_CLOSED,
   SERVER_DESCRIPTION_CHANGED,
   SERVER_OPENING,
@@ -22,8 +24,10 @@ import {
   TOPOLOGY_OPENING
 } from '../constants.ts';
 import {
+  MongoAbortError,
   MongoCompatibilityError,
   MongoDriverError,
+  MongoInvalidArgumentError,
   MongoRuntimeError,
   MongoServerSelectionError,
   MongoTopologyClosedError
@@ -31,6 +35,7 @@ import {
 import type { MongoOptions, ServerApi } from '../mongo_client.ts';
 import { TypedEventEmitter } from '../mongo_types.ts';
 import { ReadPreference, ReadPreferenceLike } from '../read_preference.ts';
+import type { RetryAttemptEvent, RetryPolicy } from '../retry_policy.ts';
 import {
   ClientSession,
   ClientSessionOptions,
@@ -39,6 +44,7 @@ import {
 } from '../sessions.ts';
 import type { Transaction } from '../transactions.ts';
 import {
+  addAbortListener,
   Callback,
   ClientMetadata,
   eachAsync,
@@ -71,7 +77,12 @@ import {
 } from './events.ts';
 import { Server, ServerEvents, ServerOptions } from './server.ts';
 import { compareTopologyVersion, ServerDescription } from './server_description.ts';
-import { readPreferenceServerSelector, ServerSelector } from './server_selection.ts';
+import {
+  deprioritizedServerSelector,
+  readPreferenceServerSelector,
+  ServerSelectionHook,
+  ServerSelector
+} from './server_selection.ts';
 import { SrvPoller, SrvPollingEvent } from './srv_polling.ts';
 import { TopologyDescription } from './topology_description.ts';
 
@@ -96,6 +107,9 @@ export type ServerSelectionCallback = Callback<Server>;
 /** @internal */
 export interface ServerSelectionRequest {
   serverSelector: ServerSelector;
+  readPreference?: ReadPreference;
+  /** Whether `serverSelectionHook` is consulted, see `SelectServerOptions.skipSelectionHook` */
+  skipSelectionHook?: boolean;
   transaction?: Transaction;
   callback: ServerSelectionCallback;
   timer?: NodeJS.Timeout;
@@ -143,6 +157,15 @@ export interface TopologyOptions extends BSONSerializeOptions, ServerOptions {
   retryReads: boolean;
   /** How long to block for server selection before throwing an error */
   serverSelectionTimeoutMS: number;
+  /** The default time limit of every operation, see `MongoClientOptions.timeoutMS` */
+  timeoutMS?: number;
+  /** Reorders or prunes the servers suitable for an operation, see `MongoClientOptions` */
+  serverSelectionHook?: ServerSelectionHook;
+  /** The default retry policy of every operation, see `MongoClientOptions.retryPolicy` */
+  retryPolicy?: RetryPolicy;
+  /** Resolves the SRV records the `SrvPoller` polls, see `MongoClientOptions.dnsResolver` */
+  dnsResolver?: DnsResolver;
+  dnsNameserver?: string;
   /** The name of the replica set to connect to */
   replicaSet?: string;
   srvHost?: string;
@@ -169,6 +192,16 @@ export interface SelectServerOptions {
   /** How long to block for server selection before throwing an error */
   serverSelectionTimeoutMS?: number;
   session?: ClientSession;
+  /** Gives up waiting for a suitable server once aborted */
+  signal?: AbortSignal;
+  /** Servers to avoid in a sharded cluster unless no other mongos is suitable */
+  deprioritizedServers?: ServerDescription[];
+  /**
+   * Do not consult the `serverSelectionHook`, for operations that must run on one specific
+   * server (e.g. the `getMore`s of a cursor)
+   * @internal
+   */
+  skipSelectionHook?: boolean;
 }
 
 /** @public */
@@ -181,6 +214,7 @@ export type TopologyEvents = {
   topologyClosed(event: TopologyClosedEvent): void;
   topologyOpening(event: TopologyOpeningEvent): void;
   topologyDescriptionChanged(event: TopologyDescriptionChangedEvent): void;
+  retryAttempt(event: RetryAttemptEvent): void;
   error(error: Error): void;
   /** @internal */
   open(topology: Topology): void;
@@ -217,6 +251,8 @@ export class Topology extends TypedEventEmitter<TopologyEvents> {
   /** @event */
   static readonly TOPOLOGY_DESCRIPTION_CHANGED = TOPOLOGY_DESCRIPTION_CHANGED;
   /** @event */
+  static readonly RETRY_ATTEMPT = RETRY_ATTEMPT;
+  /** @event */
   static readonly ERROR = ERROR;
   /** @event */
   static readonly OPEN = OPEN;
@@ -333,7 +369,8 @@ export class Topology extends TypedEventEmitter<TopologyEvents> {
           heartbeatFrequencyMS: this.s.heartbeatFrequencyMS,
           srvHost: options.srvHost,
           srvMaxHosts: options.srvMaxHosts,
-          srvServiceName: options.srvServiceName
+          srvServiceName: options.srvServiceName,
+          dnsResolver: getDnsResolver(options)
         });
 
       this.on(Topology.TOPOLOGY_DESCRIPTION_CHANGED, this.s.detectShardedTopology);
@@ -451,7 +488,8 @@ export class Topology extends TypedEventEmitter<TopologyEvents> {
 
       // TODO: NODE-2471
       const skipPingOnConnect = this.s.options[Symbol.for('@@mdb.skipPingOnConnect')] === true;
-      if (!skipPingOnConnect && server && this.s.credentials) {
+      const authenticates = this.s.credentials != null || this.s.options.credentialProvider != null;
+      if (!skipPingOnConnect && server && authenticates) {
         server.command(ns('admin.$cmd'), { ping: 1 }, {}, err => {
           if (err) {
             typeof callback === 'function' ? callback(err) : this.emit(Topology.ERROR, err);
@@ -548,24 +586,26 @@ export class Topology extends TypedEventEmitter<TopologyEvents> {
     callback: Callback<Server>
   ): void {
     let serverSelector;
+    let readPreference: ReadPreference | undefined;
     if (typeof selector !== 'function') {
       if (typeof selector === 'string') {
-        serverSelector = readPreferenceServerSelector(ReadPreference.fromString(selector));
+        readPreference = ReadPreference.fromString(selector);
+      } else if (selector instanceof ReadPreference) {
+        readPreference = selector;
       } else {
-        let readPreference;
-        if (selector instanceof ReadPreference) {
-          readPreference = selector;
-        } else {
-          ReadPreference.translate(options);
-          readPreference = options.readPreference || ReadPreference.primary;
-        }
-
-        serverSelector = readPreferenceServerSelector(readPreference as ReadPreference);
+        ReadPreference.translate(options);
+        readPreference = (options.readPreference as ReadPreference) || ReadPreference.primary;
       }
+
+      serverSelector = readPreferenceServerSelector(readPreference);
     } else {
       serverSelector = selector;
     }
 
+    if (options.deprioritizedServers?.length) {
+      serverSelector = deprioritizedServerSelector(serverSelector, options.deprioritizedServers);
+    }
+
     options = Object.assign(
       {},
       { serverSelectionTimeoutMS: this.s.serverSelectionTimeoutMS },
@@ -581,10 +621,31 @@ export class Topology extends TypedEventEmitter<TopologyEvents> {
       return;
     }
 
+    const signal = options.signal;
+    if (signal?.aborted) {
+      callback(new MongoAbortError(signal.reason));
+      return;
+    }
+
+    const removeAbortListener = addAbortListener(signal, error => {
+      waitQueueMember[kCancelled] = true;
+      if (waitQueueMember.timer) {
+        clearTimeout(waitQueueMember.timer);
+        waitQueueMember.timer = undefined;
+      }
+
+      waitQueueMember.callback(error);
+    });
+
     const waitQueueMember: ServerSelectionRequest = {
       serverSelector,
+      readPreference,
+      skipSelectionHook: options.skipSelectionHook,
       transaction,
-      callback
+      callback: (error, server) => {
+        removeAbortListener();
+        callback(error, server);
+      }
     };
 
     const serverSelectionTimeoutMS = options.serverSelectionTimeoutMS;
@@ -877,6 +938,16 @@ function updateServers(topology: Topology, incomingServerDescription?: ServerDes
     const server = topology.s.servers.get(incomingServerDescription.address);
     if (server) {
       server.s.description = incomingServerDescription;
+
+      // a pool is only worth using once its server was found healthy by monitoring
+      if (
+        incomingServerDescription.error == null &&
+        (incomingServerDescription.isDataBearing ||
+          (incomingServerDescription.type !== ServerType.Unknown &&
+            topology.description.type === TopologyType.Single))
+      ) {
+        server.s.pool.ready();
+      }
     }
   }
 
@@ -926,6 +997,30 @@ function drainWaitQueue(queue: Denque<ServerSelectionRequest>, err?: MongoDriver
   }
 }
 
+/**
+ * Runs the user's `serverSelectionHook`, keeping only servers that were among its candidates
+ * @throws MongoInvalidArgumentError if the hook does not return an array
+ */
+function applySelectionHook(
+  topology: Topology,
+  selectionHook: ServerSelectionHook,
+  request: ServerSelectionRequest,
+  candidates: ServerDescription[]
+): ServerDescription[] {
+  const selected = selectionHook(candidates.slice(), {
+    topologyDescription: topology.description,
+    readPreference: request.readPreference,
+    poolStatistics: address => topology.s.servers.get(address)?.s.pool.statistics()
+  });
+
+  if (!Array.isArray(selected)) {
+    throw new MongoInvalidArgumentError('serverSelectionHook must return an array of servers');
+  }
+
+  const addresses = new Set(candidates.map(description => description.address));
+  return selected.filter(description => addresses.has(description?.address));
+}
+
 function processWaitQueue(topology: Topology) {
   if (topology.s.state === STATE_CLOSED) {
     drainWaitQueue(topology[kWaitQueue], new MongoTopologyClosedError());
@@ -934,6 +1029,7 @@ function processWaitQueue(topology: Topology) {
 
   const isSharded = topology.description.type === TopologyType.Sharded;
   const serverDescriptions = Array.from(topology.description.servers.values());
+  const selectionHook = topology.s.options.serverSelectionHook;
   const membersToProcess = topology[kWaitQueue].length;
   for (let i = 0; i < membersToProcess; ++i) {
     const waitQueueMember = topology[kWaitQueue].shift();
@@ -945,12 +1041,23 @@ function processWaitQueue(topology: Topology) {
       continue;
     }
 
+    // the hook's preference is final, instead of the usual choice between two random servers
+    const useSelectionHook = selectionHook != null && !waitQueueMember.skipSelectionHook;
     let selectedDescriptions;
     try {
       const serverSelector = waitQueueMember.serverSelector;
       selectedDescriptions = serverSelector
         ? serverSelector(topology.description, serverDescriptions)
         : serverDescriptions;
+
+      if (selectionHook && useSelectionHook && selectedDescriptions.length) {
+        selectedDescriptions = applySelectionHook(
+          topology,
+          selectionHook,
+          waitQueueMember,
+          selectedDescriptions
+        );
+      }
     } catch (e) {
       if (waitQueueMember.timer) {
         clearTimeout(waitQueueMember.timer);
@@ -964,7 +1071,7 @@ function processWaitQueue(topology: Topology) {
     if (selectedDescriptions.length === 0) {
       topology[kWaitQueue].push(waitQueueMember);
       continue;
-    } else if (selectedDescriptions.length === 1) {
+    } else if (selectedDescriptions.length === 1 || useSelectionHook) {
       selectedServer = topology.s.servers.get(selectedDescriptions[0].address);
     } else {
       // don't shuffle the array if there are only two elements
@@ -0,0 +1,325 @@
+import Denque from 'denque';
+import type {
+  ConnectionPoolClearedEvent,
+  ConnectionPoolClosedEvent,
+  ConnectionPoolCreatedEvent,
+  ConnectionPoolReadyEvent
+} from '../cmap/connection_pool_events.ts';
+import {
+  CONNECTION_POOL_CLEARED,
+  CONNECTION_POOL_CLOSED,
+  CONNECTION_POOL_CREATED,
+  CONNECTION_POOL_READY,
+  SERVER_CLOSED,
+  SERVER_DESCRIPTION_CHANGED,
+  SERVER_HEARTBEAT_FAILED,
+  SERVER_HEARTBEAT_STARTED,
+  SERVER_HEARTBEAT_SUCCEEDED,
+  SERVER_OPENING,
+  TOPOLOGY_CLOSED,
+  TOPOLOGY_DESCRIPTION_CHANGED,
+  TOPOLOGY_OPENING
+} from '../constants.ts';
+import { MongoInvalidArgumentError } from '../error.ts';
+import type { MongoClient, MongoClientEvents } from '../mongo_client.ts';
+import type {
+  ServerClosedEvent,
+  ServerDescriptionChangedEvent,
+  ServerHeartbeatFailedEvent,
+  ServerHeartbeatStartedEvent,
+  ServerHeartbeatSucceededEvent,
+  ServerOpeningEvent,
+  TopologyClosedEvent,
+  TopologyDescriptionChangedEvent,
+  TopologyOpeningEvent
+} from './events.ts';
+import type { ServerDescription } from './server_description.ts';
+import type { TopologyDescription } from './topology_description.ts';
+
+/** @internal */
+const kEntries = Symbol('entries');
+/** @internal */
+const kListeners = Symbol('listeners');
+
+/** @public */
+export interface TopologyRecorderOptions {
+  /** The number of entries to keep, the oldest ones are dropped first. Defaults to 1000 */
+  maxEntries?: number;
+  /**
+   * Whether to record heartbeats, which dominate the timeline of a healthy deployment.
+   * Defaults to `true`
+   */
+  heartbeats?: boolean;
+}
+
+/** @public */
+export interface TopologyTimelineEntry {
+  /** When the event was recorded, as an ISO 8601 string */
+  time: string;
+  /** The name of the event, e.g. `serverDescriptionChanged` */
+  event: string;
+  topologyId?: number;
+  /** The address (host/port pair) of the server the event is about */
+  address?: string;
+  /** The duration of a heartbeat in ms */
+  duration?: number;
+  /** The error a heartbeat failed with */
+  failure?: string;
+  /** The fields a description change affected, formatted as `field: previous => new` */
+  changes?: string[];
+}
+
+/** The fields compared by the diff view, besides the servers of a topology */
+const SERVER_DESCRIPTION_FIELDS = [
+  'type',
+  'minWireVersion',
+  'maxWireVersion',
+  'me',
+  'hosts',
+  'tags',
+  'setName',
+  'setVersion',
+  'electionId',
+  'primary',
+  'logicalSessionTimeoutMinutes',
+  'error'
+] as const;
+
+const TOPOLOGY_DESCRIPTION_FIELDS = [
+  'type',
+  'setName',
+  'maxSetVersion',
+  'maxElectionId',
+  'stale',
+  'compatible',
+  'compatibilityError',
+  'logicalSessionTimeoutMinutes',
+  'commonWireVersion'
+] as const;
+
+/**
+ * Records the SDAM history of a `MongoClient`: topology and server description changes,
+ * heartbeats and connection pool lifecycle events, in a bounded timeline.
+ *
+ * Descriptions are reduced to the fields that changed when they are recorded, so the timeline
+ * holds no references to driver internals and can be exported with `JSON.stringify(recorder)`.
+ *
+ * @example
+ * ```ts
+ * const recorder = new TopologyRecorder(client, { heartbeats: false });
+ * await client.connect();
+ * // ... after a failover
+ * console.log(recorder.formatTransitions());
+ * ```
+ * @public
+ */
+export class TopologyRecorder {
+  readonly maxEntries: number;
+  /** @internal */
+  client: MongoClient;
+  /** @internal */
+  [kEntries]: Denque<TopologyTimelineEntry>;
+  /** @internal */
+  [kListeners]: Partial<MongoClientEvents>;
+
+  constructor(client: MongoClient, options: TopologyRecorderOptions = {}) {
+    const maxEntries = options.maxEntries ?? 1000;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new MongoInvalidArgumentError('maxEntries must be a positive integer');
+    }
+
+    this.maxEntries = maxEntries;
+    this.client = client;
+    this[kEntries] = new Denque();
+
+    const listeners: Partial<MongoClientEvents> = {
+      [TOPOLOGY_OPENING]: (event: TopologyOpeningEvent) =>
+        this.record(TOPOLOGY_OPENING, { topologyId: event.topologyId }),
+      [TOPOLOGY_CLOSED]: (event: TopologyClosedEvent) =>
+        this.record(TOPOLOGY_CLOSED, { topologyId: event.topologyId }),
+      [TOPOLOGY_DESCRIPTION_CHANGED]: (event: TopologyDescriptionChangedEvent) =>
+        this.record(TOPOLOGY_DESCRIPTION_CHANGED, {
+          topologyId: event.topologyId,
+          changes: topologyDescriptionChanges(event.previousDescription, event.newDescription)
+        }),
+      [SERVER_OPENING]: (event: ServerOpeningEvent) =>
+        this.record(SERVER_OPENING, { topologyId: event.topologyId, address: event.address }),
+      [SERVER_CLOSED]: (event: ServerClosedEvent) =>
+        this.record(SERVER_CLOSED, { topologyId: event.topologyId, address: event.address }),
+      [SERVER_DESCRIPTION_CHANGED]: (event: ServerDescriptionChangedEvent) =>
+        this.record(SERVER_DESCRIPTION_CHANGED, {
+          topologyId: event.topologyId,
+          address: event.address,
+          changes: serverDescriptionChanges(event.previousDescription, event.newDescription)
+        }),
+      [CONNECTION_POOL_CREATED]: (event: ConnectionPoolCreatedEvent) =>
+        this.record(CONNECTION_POOL_CREATED, { address: event.address }),
+      [CONNECTION_POOL_READY]: (event: ConnectionPoolReadyEvent) =>
+        this.record(CONNECTION_POOL_READY, { address: event.address }),
+      [CONNECTION_POOL_CLEARED]: (event: ConnectionPoolClearedEvent) =>
+        this.record(CONNECTION_POOL_CLEARED, { address: event.address }),
+      [CONNECTION_POOL_CLOSED]: (event: ConnectionPoolClosedEvent) =>
+        this.record(CONNECTION_POOL_CLOSED, { address: event.address })
+    };
+
+    if (options.heartbeats ?? true) {
+      listeners[SERVER_HEARTBEAT_STARTED] = (event: ServerHeartbeatStartedEvent) =>
+        this.record(SERVER_HEARTBEAT_STARTED, { address: event.connectionId });
+      listeners[SERVER_HEARTBEAT_SUCCEEDED] = (event: ServerHeartbeatSucceededEvent) =>
+        this.record(SERVER_HEARTBEAT_SUCCEEDED, {
+          address: event.connectionId,
+          duration: event.duration
+        });
+      listeners[SERVER_HEARTBEAT_FAILED] = (event: ServerHeartbeatFailedEvent) =>
+        this.record(SERVER_HEARTBEAT_FAILED, {
+          address: event.connectionId,
+          duration: event.duration,
+          failure: formatValue(event.failure)
+        });
+    }
+
+    this[kListeners] = listeners;
+    for (const event of listenedEvents(listeners)) {
+      const listener = listeners[event];
+      if (listener) {
+        client.on(event, listener);
+      }
+    }
+  }
+
+  /** The recorded entries, oldest first */
+  get entries(): TopologyTimelineEntry[] {
+    return this[kEntries].toArray();
+  }
+
+  /** Stops recording, the entries recorded so far are kept */
+  stop(): void {
+    const listeners = this[kListeners];
+    for (const event of listenedEvents(listeners)) {
+      const listener = listeners[event];
+      if (listener) {
+        this.client.off(event, listener);
+      }
+    }
+    this[kListeners] = {};
+  }
+
+  /** Drops all recorded entries */
+  clear(): void {
+    this[kEntries].clear();
+  }
+
+  toJSON(): { maxEntries: number; entries: TopologyTimelineEntry[] } {
+    return { maxEntries: this.maxEntries, entries: this.entries };
+  }
+
+  /**
+   * Renders every recorded topology and server description change as plain text, e.g.
+   *
+   * ```text
+   * 2022-05-04T10:00:00.000Z topology#0 changed
+   *   type: 'ReplicaSetWithPrimary' => 'ReplicaSetNoPrimary'
+   *   servers: a:27017: 'RSPrimary' => 'Unknown'
+   * ```
+   */
+  formatTransitions(): string {
+    const lines: string[] = [];
+    for (const entry of this.entries) {
+      if (!entry.changes?.length) {
+        continue;
+      }
+
+      const subject =
+        entry.event === TOPOLOGY_DESCRIPTION_CHANGED
+          ? `topology#${entry.topologyId}`
+          : `server [${entry.address}]`;
+      lines.push(`${entry.time} ${subject} changed`);
+      lines.push(...entry.changes.map(change => `  ${change}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /** @internal */
+  record(event: string, details: Omit<TopologyTimelineEntry, 'time' | 'event'>): void {
+    const entries = this[kEntries];
+    entries.push({ time: new Date().toISOString(), event, ...details });
+    while (entries.length > this.maxEntries) {
+      entries.shift();
+    }
+  }
+}
+
+/** The client events `listeners` has a listener for */
+function listenedEvents(listeners: Partial<MongoClientEvents>): (keyof MongoClientEvents)[] {
+  return Object.keys(listeners) as (keyof MongoClientEvents)[];
+}
+
+/** Formats `value` for the diff view, values of different types never format the same */
+function formatValue(value: unknown): string {
+  if (value == null) {
+    return String(value);
+  }
+
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+
+  if (typeof value === 'string') {
+    return `'${value}'`;
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+
+  if (typeof value === 'object') {
+    const hex = (value as { toHexString?: () => string }).toHexString?.();
+    if (typeof hex === 'string') {
+      return `ObjectId('${hex}')`;
+    }
+
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+function fieldChanges<T>(previous: T, next: T, fields: ReadonlyArray<keyof T>): string[] {
+  const changes: string[] = [];
+  for (const field of fields) {
+    const before = formatValue(previous[field]);
+    const after = formatValue(next[field]);
+    if (before !== after) {
+      changes.push(`${String(field)}: ${before} => ${after}`);
+    }
+  }
+
+  return changes;
+}
+
+function serverDescriptionChanges(previous: ServerDescription, next: ServerDescription): string[] {
+  return fieldChanges(previous, next, SERVER_DESCRIPTION_FIELDS);
+}
+
+function topologyDescriptionChanges(
+  previous: TopologyDescription,
+  next: TopologyDescription
+): string[] {
+  const changes = fieldChanges(previous, next, TOPOLOGY_DESCRIPTION_FIELDS);
+
+  const addresses = new Set([...previous.servers.keys(), ...next.servers.keys()]);
+  for (const address of addresses) {
+    const before = previous.servers.get(address);
+    const after = next.servers.get(address);
+    if (!before && after) {
+      changes.push(`servers: + ${address} (${after.type})`);
+    } else if (before && !after) {
+      changes.push(`servers: - ${address} (${before.type})`);
+    } else if (before && after && before.type !== after.type) {
+      changes.push(`servers: ${address}: '${before.type}' => '${after.type}'`);
+    }
+  }
+
+  return changes;
+}
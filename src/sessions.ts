@@ -51,6 +51,8 @@ export interface ClientSessionOptions {
   snapshot?: boolean;
   /** The default TransactionOptions to use for transactions started on this session. */
   defaultTransactionOptions?: TransactionOptions;
+  /** The default `timeoutMS` of operations run with this session, takes precedence over collection, database and client settings */
+  defaultTimeoutMS?: number;
 
   /** @internal */
   owner?: symbol | AbstractCursor;
@@ -110,6 +112,7 @@ export class ClientSession extends TypedEventEmitter<ClientSessionEvents> {
   /** @internal */
   owner?: symbol | AbstractCursor;
   defaultTransactionOptions: TransactionOptions;
+  defaultTimeoutMS?: number;
   transaction: Transaction;
   /** @internal */
   [kServerSession]: ServerSession | null;
@@ -177,6 +180,7 @@ export class ClientSession extends TypedEventEmitter<ClientSessionEvents> {
     this.operationTime = undefined;
     this.owner = options.owner;
     this.defaultTransactionOptions = Object.assign({}, options.defaultTransactionOptions);
+    this.defaultTimeoutMS = options.defaultTimeoutMS;
     this.transaction = new Transaction();
   }
 
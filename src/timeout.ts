@@ -0,0 +1,54 @@
+import { MongoOperationTimeoutError } from './error.ts';
+import { calculateDurationInMs, now } from './utils.ts';
+
+/**
+ * Tracks the `timeoutMS` budget of a single operation.
+ *
+ * The budget is shared by every step of the operation: server selection, connection checkout,
+ * retries and the command round trip each get whatever the previous steps left over.
+ * @internal
+ */
+export class TimeoutContext {
+  /** The whole budget in milliseconds, `0` means the operation is not bounded */
+  readonly timeoutMS: number;
+  readonly started: number;
+
+  constructor(timeoutMS: number) {
+    this.timeoutMS = timeoutMS;
+    this.started = now();
+  }
+
+  /** Milliseconds left in the budget, `Infinity` if the operation is not bounded */
+  get remainingMS(): number {
+    if (this.timeoutMS === 0) {
+      return Infinity;
+    }
+
+    return Math.max(0, this.timeoutMS - calculateDurationInMs(this.started));
+  }
+
+  get expired(): boolean {
+    return this.remainingMS <= 0;
+  }
+
+  /**
+   * Caps the timeout of a single step (where `0` means no timeout) to the remaining budget.
+   * Callers are expected to check `expired` first, the result is always at least 1ms.
+   */
+  limit(timeoutMS: number): number {
+    const remainingMS = this.remainingMS;
+    if (remainingMS === Infinity) {
+      return timeoutMS;
+    }
+
+    const limited = timeoutMS > 0 ? Math.min(timeoutMS, remainingMS) : remainingMS;
+    return Math.max(1, Math.ceil(limited));
+  }
+
+  /** The error reported when the budget runs out during `stage` */
+  error(stage: string): MongoOperationTimeoutError {
+    return new MongoOperationTimeoutError(
+      `Operation exceeded timeoutMS of ${this.timeoutMS} ms during ${stage}`
+    );
+  }
+}
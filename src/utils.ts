@@ -1,5 +1,4 @@
 import * as crypto from "crypto";
-import type { SrvRecord } from "dns";
 
 import { Document, ObjectId, resolveBSONOptions } from "./bson.ts";
 import type { Connection } from "./cmap/connection.ts";
@@ -9,8 +8,10 @@ import { LEGACY_HELLO_COMMAND } from "./constants.ts";
 import type { AbstractCursor } from "./cursor/abstract_cursor.ts";
 import type { FindCursor } from "./cursor/find_cursor.ts";
 import type { Db } from "./db.ts";
+import type { SrvRecord } from "./dns_resolver.ts";
 import {
   AnyError,
+  MongoAbortError,
   MongoCompatibilityError,
   MongoInvalidArgumentError,
   MongoNotConnectedError,
@@ -863,6 +864,23 @@ export function now(): number {
   return hrtime;
 }
 
+/**
+ * Calls `onAbort` once `signal` is aborted and returns a function that removes the listener again.
+ * @internal
+ */
+export function addAbortListener(
+  signal: AbortSignal | undefined,
+  onAbort: (error: MongoAbortError) => void,
+): () => void {
+  if (signal == null) {
+    return () => undefined;
+  }
+
+  const listener = () => onAbort(new MongoAbortError(signal.reason));
+  signal.addEventListener("abort", listener, { once: true });
+  return () => signal.removeEventListener("abort", listener);
+}
+
 /** @internal */
 export function calculateDurationInMs(started: number): number {
   if (typeof started !== "number") {
@@ -1046,6 +1064,12 @@ export function resolveOptions<T extends CommandOperationOptions>(
     result.readPreference = readPreference;
   }
 
+  const inheritedTimeoutMS = session?.defaultTimeoutMS ?? parent?.timeoutMS;
+  const timeoutMS = options?.timeoutMS ?? inheritedTimeoutMS;
+  if (timeoutMS != null) {
+    result.timeoutMS = timeoutMS;
+  }
+
   return result;
 }
 